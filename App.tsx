@@ -1,41 +1,249 @@
-import React, { useState, useCallback } from 'react';
-import { generatePlate } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { detectVehicles, estimateGenerationCost, generatePlate, MAX_VARIANTS, refinePlate } from './services/geminiService';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
 import Button from './components/Button';
-import { CarPlateState } from './types';
+import BatchWorkspace from './components/BatchWorkspace';
+import CompositeControls from './components/CompositeControls';
+import CountryPicker from './components/CountryPicker';
+import VerificationReportPanel from './components/VerificationReportPanel';
+import HistoryPanel from './components/HistoryPanel';
+import VehicleOverlay from './components/VehicleOverlay';
+import VehicleTargetList from './components/VehicleTargetList';
+import ExportPanel from './components/ExportPanel';
+import PlateStyleControls from './components/PlateStyleControls';
+import CandidateGrid from './components/CandidateGrid';
+import FollowUpPanel from './components/FollowUpPanel';
+import UsageSummary from './components/UsageSummary';
+import SessionUsagePanel from './components/SessionUsagePanel';
+import CachePanel from './components/CachePanel';
+import { saveGeneration } from './services/historyStore';
+import { isAbortError } from './services/abort';
+import { PlateDetectedError, toErrorNotice, VerificationFailedError } from './services/errors';
+import { DEFAULT_COMPOSITE_OPTIONS } from './services/compositeService';
+import { DEFAULT_EXPORT_SETTINGS, downloadBlob, exportImage, formatExportFileName, ProvenanceMetadata } from './services/exportService';
+import { findPlateFormat, formatPlateNumber, validatePlateNumber } from './services/plateFormats';
+import { DEFAULT_PLATE_STYLE, followsNumberFormat } from './services/promptTemplates';
+import { checkBudget, subscribeUsage } from './services/usageService';
+import {
+  CarPlateState,
+  DetectedVehicle,
+  ExportSettings,
+  GenerationCandidate,
+  GenerationResult,
+  GenerationSettings,
+  HistoryEntry,
+  HistoryPayload,
+  PlateCheck,
+  PlateMode,
+  PlatePlacement,
+  PlatePosition,
+  RedactionMethod,
+  ResultVersion,
+} from './types';
+
+const MODE_LABELS: Record<PlateMode, string> = {
+  add: 'Add Plate',
+  replace: 'Replace Plate',
+  composite: 'Composite',
+  redact: 'Redact',
+};
+
+const PLACEMENT_LABELS: Record<PlatePlacement, string> = {
+  auto: 'Auto',
+  front: 'Front',
+  rear: 'Rear',
+  both: 'Both',
+};
+
+const REDACTION_LABELS: Record<RedactionMethod, string> = {
+  blur: 'Blur',
+  pixelate: 'Pixelate',
+  remove: 'Remove',
+};
+
+/**
+ * Plates a result must keep through follow-up edits. Redacted results have none.
+ */
+const plateChecksFor = (
+  result: GenerationResult,
+  plateNumber: string,
+  position: PlatePosition | undefined,
+  vehicles: DetectedVehicle[] | null
+): PlateCheck[] => {
+  if (result.redactedAreas) return [];
+  if (result.plateResults) {
+    return result.plateResults.map(plate => ({
+      plateNumber: plate.plateNumber,
+      position: plate.position,
+      vehicle: vehicles?.find(vehicle => vehicle.id === plate.vehicleId),
+    }));
+  }
+  return plateNumber ? [{ plateNumber, position }] : [];
+};
+
+const startVersions = (result: GenerationResult, plates: PlateCheck[]): Pick<CarPlateState, 'versions' | 'versionIndex'> => ({
+  versions: [{ id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, result, instruction: null, plates }],
+  versionIndex: 0,
+});
 
 export const App: React.FC = () => {
   const [state, setState] = useState<CarPlateState>({
     originalImage: null,
     generatedImage: null,
+    lastResult: null,
     plateNumber: '',
     plateCountry: '',
+    placement: 'auto',
+    rearPlate: { plateNumber: '', plateCountry: '' },
     mode: 'add', // Default mode
+    plateRegion: null,
+    compositeOptions: DEFAULT_COMPOSITE_OPTIONS,
+    compositeFallback: false,
+    cropAndStitch: true,
+    plateStyle: DEFAULT_PLATE_STYLE,
+    variants: 1,
+    forceFresh: false,
+    versions: [],
+    versionIndex: 0,
+    vehicles: null,
+    vehicleTargets: [],
+    redaction: 'blur',
     isGenerating: false,
     error: null,
     statusMessage: '',
   });
 
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [workspace, setWorkspace] = useState<'single' | 'batch' | 'history'>('single');
+  const [pendingRegenerate, setPendingRegenerate] = useState<{ skipDetection: boolean } | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  // Re-renders when the session spend or budget changes, so the budget check below stays current.
+  const [, setUsageVersion] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const freeformNumbers = !followsNumberFormat(state.plateStyle);
+  // Vanity and temporary plates are taken as typed.
+  const formatFor = (plateCountry: string) => (freeformNumbers ? null : findPlateFormat(plateCountry));
+  const plateFormat = formatFor(state.plateCountry);
+  const plateNumberError = plateFormat ? validatePlateNumber(state.plateNumber, plateFormat) : null;
+  const rearFormat = formatFor(state.rearPlate.plateCountry);
+  const rearNumberError = rearFormat ? validatePlateNumber(state.rearPlate.plateNumber, rearFormat) : null;
+  const hasTargets = state.vehicleTargets.length > 0;
+  const isRedact = state.mode === 'redact';
+  const showPlacement = !hasTargets && state.mode !== 'composite' && !isRedact;
+  const bothPlates = showPlacement && state.placement === 'both';
+  const targetsIncomplete = state.vehicleTargets.some(target => {
+    const format = formatFor(target.plateCountry);
+    return !target.plateNumber || !target.plateCountry || (format ? !!validatePlateNumber(target.plateNumber, format) : false);
+  });
+  const budgetCheck = checkBudget(estimateGenerationCost(state.mode, {
+    targets: state.vehicleTargets,
+    placement: state.placement,
+    cropAndStitch: state.cropAndStitch,
+    redaction: state.redaction,
+    variants: state.variants,
+  }));
+
+  useEffect(() => subscribeUsage(() => setUsageVersion(version => version + 1)), []);
+
+  const handleCountryChange = (plateCountry: string) => {
+    const format = formatFor(plateCountry);
+    setState(prev => ({
+      ...prev,
+      plateCountry,
+      plateNumber: format ? formatPlateNumber(prev.plateNumber, format) : prev.plateNumber
+    }));
+  };
+
+  const handlePlateNumberChange = (value: string) => {
+    setState(prev => ({
+      ...prev,
+      plateNumber: plateFormat ? formatPlateNumber(value, plateFormat) : value.toUpperCase()
+    }));
+  };
+
+  const handleRearCountryChange = (plateCountry: string) => {
+    const format = formatFor(plateCountry);
+    setState(prev => ({
+      ...prev,
+      rearPlate: {
+        plateCountry,
+        plateNumber: format ? formatPlateNumber(prev.rearPlate.plateNumber, format) : prev.rearPlate.plateNumber
+      }
+    }));
+  };
+
+  const handleRearPlateNumberChange = (value: string) => {
+    setState(prev => ({
+      ...prev,
+      rearPlate: { ...prev.rearPlate, plateNumber: rearFormat ? formatPlateNumber(value, rearFormat) : value.toUpperCase() }
+    }));
+  };
+
+  // The rear plate starts with the front plate's style, which is the common case.
+  const handlePlacementChange = (placement: PlatePlacement) => {
+    setState(prev => ({
+      ...prev,
+      placement,
+      rearPlate: placement === 'both' && !prev.rearPlate.plateCountry
+        ? { ...prev.rearPlate, plateCountry: prev.plateCountry }
+        : prev.rearPlate
+    }));
+  };
 
   const handleImageSelect = (base64: string) => {
     setState(prev => ({
       ...prev,
       originalImage: base64,
       generatedImage: null,
+      lastResult: null,
+      versions: [],
+      versionIndex: 0,
+      plateRegion: null,
+      vehicles: null,
+      vehicleTargets: [],
       error: null,
       statusMessage: ''
     }));
   };
 
-  const handleModeSwitch = (mode: 'add' | 'replace') => {
+  const handleDetectVehicles = async () => {
+    if (!state.originalImage) return;
+    setIsDetecting(true);
+    setState(prev => ({ ...prev, error: null }));
+    try {
+      const vehicles = await detectVehicles(state.originalImage, undefined, state.forceFresh);
+      setState(prev => ({ ...prev, vehicles, vehicleTargets: [] }));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: toErrorNotice(err) }));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  // New targets start from the plate in the main fields.
+  const handleToggleVehicle = (vehicle: DetectedVehicle) => {
+    setState(prev => ({
+      ...prev,
+      vehicleTargets: prev.vehicleTargets.some(target => target.vehicle.id === vehicle.id)
+        ? prev.vehicleTargets.filter(target => target.vehicle.id !== vehicle.id)
+        : [...prev.vehicleTargets, { vehicle, plateNumber: prev.plateNumber, plateCountry: prev.plateCountry }]
+    }));
+  };
+
+  const handleModeSwitch = (mode: PlateMode) => {
     setState(prev => ({
       ...prev,
       mode,
       error: null,
       statusMessage: '',
-      generatedImage: null 
+      generatedImage: null,
+      lastResult: null,
+      versions: [],
+      versionIndex: 0
     }));
   };
 
@@ -46,10 +254,15 @@ export const App: React.FC = () => {
 
     if (!state.originalImage) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setState(prev => ({ ...prev, isGenerating: true, error: null, statusMessage: 'Initializing...' }));
 
     try {
-      if (!state.plateNumber || !state.plateCountry) {
+      if (state.mode !== 'redact' && (state.vehicleTargets.length > 0
+        ? state.vehicleTargets.some(target => !target.plateNumber || !target.plateCountry)
+        : !state.plateNumber || !state.plateCountry)) {
           throw new Error("Please fill in all text fields.");
       }
       
@@ -59,33 +272,214 @@ export const App: React.FC = () => {
           state.plateCountry,
           state.mode,
           (status) => setState(prev => ({ ...prev, statusMessage: status })),
-          skipDetection
+          {
+            skipDetection,
+            region: state.plateRegion,
+            compositeOptions: state.compositeOptions,
+            compositeFallback: state.compositeFallback,
+            cropAndStitch: state.cropAndStitch,
+            targets: state.vehicleTargets,
+            placement: state.placement,
+            rearPlate: state.rearPlate,
+            redaction: state.redaction,
+            plateStyle: state.plateStyle,
+            variants: state.variants,
+            forceFresh: state.forceFresh,
+            signal: controller.signal,
+          }
       );
       
-      setState(prev => ({ ...prev, generatedImage: result, isGenerating: false, statusMessage: 'Complete!' }));
+      const position = state.mode !== 'composite' && (state.placement === 'front' || state.placement === 'rear') ? state.placement : undefined;
+      const plates = plateChecksFor(result, state.plateNumber, position, state.vehicles);
+      setState(prev => ({ ...prev, generatedImage: result.image, lastResult: result, ...startVersions(result, plates), isGenerating: false, statusMessage: 'Complete!' }));
+
+      const settings: GenerationSettings = {
+        plateNumber: state.plateNumber,
+        plateCountry: state.plateCountry,
+        placement: state.placement,
+        rearPlate: state.rearPlate,
+        mode: state.mode,
+        plateRegion: state.plateRegion,
+        compositeOptions: state.compositeOptions,
+        compositeFallback: state.compositeFallback,
+        cropAndStitch: state.cropAndStitch,
+        plateStyle: state.plateStyle,
+        variants: state.variants,
+        vehicles: state.vehicles,
+        vehicleTargets: state.vehicleTargets,
+        redaction: state.redaction,
+        skipDetection,
+      };
+      // The entry's plate fields are for display and search; `settings` is what regenerating uses.
+      saveGeneration({
+        originalImage: state.originalImage,
+        plateNumber: state.mode === 'redact' ? '' : result.plateResults ? result.plateResults.map(plate => plate.plateNumber).join(', ') : state.plateNumber,
+        plateCountry: state.mode === 'redact' ? '' : result.plateResults ? Array.from(new Set(result.plateResults.map(plate => plate.plateCountry))).join(', ') : state.plateCountry,
+        mode: state.mode,
+        plateRegion: state.plateRegion,
+        result,
+        settings,
+      }).catch((e) => console.warn("Could not save generation to history:", e));
     } catch (err: any) {
-      if (err.message === "PLATE_DETECTED_CONFIRMATION") {
+      if (isAbortError(err)) {
+        setState(prev => ({ ...prev, isGenerating: false, statusMessage: '' }));
+        return;
+      }
+
+      if (err instanceof PlateDetectedError) {
         setShowConfirmation(true);
         setState(prev => ({ ...prev, isGenerating: false, statusMessage: '' }));
         return;
       }
 
+      // Still show the best attempt so the user can judge it.
+      const partial = err instanceof VerificationFailedError ? err.result : null;
+      const position = state.placement === 'front' || state.placement === 'rear' ? state.placement : undefined;
       setState(prev => ({ 
         ...prev, 
         isGenerating: false, 
-        error: err.message || "An unexpected error occurred." 
+        generatedImage: partial ? partial.image : prev.generatedImage,
+        lastResult: partial ?? prev.lastResult,
+        ...(partial ? startVersions(partial, plateChecksFor(partial, prev.plateNumber, position, prev.vehicles)) : {}),
+        error: toErrorNotice(err)
       }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [state.originalImage, state.plateNumber, state.plateCountry, state.mode, state.plateRegion, state.compositeOptions, state.compositeFallback, state.cropAndStitch, state.vehicleTargets, state.placement, state.rearPlate, state.redaction, state.plateStyle, state.variants, state.forceFresh, state.vehicles]);
+
+  const loadHistoryEntry = (entry: HistoryEntry, payload: HistoryPayload, withResult: boolean) => {
+    // Older entries only recorded the plate, mode and region.
+    const saved: Partial<GenerationSettings> & Pick<GenerationSettings, 'plateNumber' | 'mode' | 'vehicles'> = payload.settings ?? {
+      plateNumber: entry.plateNumber,
+      plateCountry: entry.plateCountry,
+      mode: entry.mode,
+      plateRegion: entry.plateRegion,
+      vehicles: null,
+      vehicleTargets: [],
+    };
+    const { skipDetection, ...settings } = saved;
+    const position = settings.mode !== 'composite' && (settings.placement === 'front' || settings.placement === 'rear') ? settings.placement : undefined;
+    setState(prev => ({
+      ...prev,
+      ...settings,
+      originalImage: payload.originalImage,
+      generatedImage: withResult ? payload.result.image : null,
+      lastResult: withResult ? payload.result : null,
+      ...(withResult
+        ? startVersions(payload.result, plateChecksFor(payload.result, settings.plateNumber, position, settings.vehicles))
+        : { versions: [], versionIndex: 0 }),
+      error: null,
+      statusMessage: ''
+    }));
+    setWorkspace('single');
+  };
+
+  const handleRegenerateFromHistory = (entry: HistoryEntry, payload: HistoryPayload) => {
+    loadHistoryEntry(entry, payload, false);
+    setPendingRegenerate({ skipDetection: payload.settings?.skipDetection ?? false });
+  };
+
+  // Runs once the history entry's settings have landed in state.
+  useEffect(() => {
+    if (pendingRegenerate && workspace === 'single') {
+      setPendingRegenerate(null);
+      handleGenerate(undefined, pendingRegenerate.skipDetection);
+    }
+  }, [pendingRegenerate, workspace, handleGenerate]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const getProvenance = (): ProvenanceMetadata => {
+    const plates = state.lastResult?.plateResults;
+    return {
+      plateNumber: isRedact ? '' : plates ? plates.map(plate => plate.plateNumber).join(', ') : state.plateNumber,
+      plateCountry: isRedact ? '' : plates ? Array.from(new Set(plates.map(plate => plate.plateCountry))).join(', ') : state.plateCountry,
+      mode: state.mode,
+      source: state.lastResult?.source ?? 'model',
+      createdAt: new Date(),
+    };
+  };
+
+  // Without a candidate, downloads the kept result.
+  const handleDownload = async (candidate?: GenerationCandidate) => {
+    const image = candidate ? candidate.image : state.generatedImage;
+    if (!image) return;
+    const metadata = candidate ? { ...getProvenance(), source: 'model' as const } : getProvenance();
+    try {
+      const blob = await exportImage(image, exportSettings, metadata);
+      downloadBlob(blob, formatExportFileName(exportSettings.fileNamePattern, metadata, exportSettings.format));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: toErrorNotice(err) }));
     }
-  }, [state.originalImage, state.plateNumber, state.plateCountry, state.mode]);
-
-  const handleDownload = () => {
-    if (state.generatedImage) {
-      const link = document.createElement('a');
-      link.href = state.generatedImage;
-      link.download = `platemorph-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  };
+
+  const handleKeepCandidate = (candidate: GenerationCandidate) => {
+    setState(prev => {
+      if (!prev.lastResult) return prev;
+      const lastResult: GenerationResult = {
+        ...prev.lastResult,
+        image: candidate.image,
+        verified: candidate.verification.passed,
+        verification: candidate.verification,
+        source: 'model',
+        changeHeatmap: candidate.changeHeatmap,
+      };
+      return {
+        ...prev,
+        generatedImage: candidate.image,
+        lastResult,
+        versions: prev.versions.map((version, index) => (index === prev.versionIndex ? { ...version, result: lastResult } : version)),
+      };
+    });
+  };
+
+  // Undo, redo and the timeline all move to another version; nothing is discarded.
+  const handleSelectVersion = (index: number) => {
+    setState(prev => {
+      const version = prev.versions[index];
+      if (!version) return prev;
+      return { ...prev, versionIndex: index, generatedImage: version.result.image, lastResult: version.result, error: null };
+    });
+  };
+
+  const handleFollowUp = async (instruction: string) => {
+    const current = state.versions[state.versionIndex];
+    if (!current) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setState(prev => ({ ...prev, isGenerating: true, error: null, statusMessage: 'Initializing...' }));
+
+    try {
+      const result = await refinePlate(
+        current.result.image,
+        instruction,
+        current.plates,
+        (status) => setState(prev => ({ ...prev, statusMessage: status })),
+        { plateStyle: state.plateStyle, signal: controller.signal }
+      );
+      const version: ResultVersion = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, result, instruction, plates: current.plates };
+      // Editing after an undo drops the versions that were undone.
+      setState(prev => {
+        const versions = [...prev.versions.slice(0, prev.versionIndex + 1), version];
+        return { ...prev, versions, versionIndex: versions.length - 1, generatedImage: result.image, lastResult: result, isGenerating: false, statusMessage: 'Complete!' };
+      });
+    } catch (err: any) {
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        statusMessage: '',
+        error: isAbortError(err) ? null : toErrorNotice(err)
+      }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
@@ -105,7 +499,32 @@ export const App: React.FC = () => {
       <Header />
 
       <main className="flex-grow w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 relative z-10">
-        
+
+        {/* Workspace Switcher */}
+        <div className="flex space-x-1 bg-slate-900/90 p-1 rounded-lg mb-6 border border-slate-800 w-fit">
+          {(['single', 'batch', 'history'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setWorkspace(option)}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${workspace === option ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+            >
+              {option === 'single' ? 'Single Image' : option === 'batch' ? 'Batch' : 'History'}
+            </button>
+          ))}
+        </div>
+
+        {/* Kept mounted so a running batch survives switching tabs. */}
+        <div className={workspace === 'batch' ? '' : 'hidden'}>
+          <BatchWorkspace />
+        </div>
+
+        {workspace === 'batch' ? null : workspace === 'history' ? (
+          <HistoryPanel
+            onOpen={(entry, payload) => loadHistoryEntry(entry, payload, true)}
+            onRegenerate={handleRegenerateFromHistory}
+          />
+        ) : (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
           {/* Left Sidebar: Controls */}
@@ -114,68 +533,258 @@ export const App: React.FC = () => {
               
               {/* Tool Switcher Tabs */}
               <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg mb-6 border border-slate-700/50">
-                <button 
-                  type="button"
-                  onClick={() => handleModeSwitch('add')}
-                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${state.mode === 'add' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
-                >
-                  Add Plate
-                </button>
-                <button 
-                  type="button"
-                  onClick={() => handleModeSwitch('replace')}
-                  className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${state.mode === 'replace' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
-                >
-                  Replace Plate
-                </button>
+                {(Object.keys(MODE_LABELS) as PlateMode[]).map(mode => (
+                  <button 
+                    key={mode}
+                    type="button"
+                    onClick={() => handleModeSwitch(mode)}
+                    className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${state.mode === mode ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+                  >
+                    {MODE_LABELS[mode]}
+                  </button>
+                ))}
               </div>
 
               <h2 className="text-lg font-semibold text-white mb-4 flex items-center">
                 <svg className="w-5 h-5 mr-2 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
                 </svg>
-                Plate Configuration
+                {isRedact ? 'Redaction' : 'Plate Configuration'}
               </h2>
               
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-slate-400 mb-1">Plate Country / Style</label>
-                  <input 
-                    type="text" 
-                    placeholder="e.g., Germany, California, Japan"
-                    value={state.plateCountry}
-                    onChange={(e) => setState(prev => ({ ...prev, plateCountry: e.target.value }))}
-                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium"
-                  />
-                </div>
+                {isRedact && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Treatment</label>
+                    <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg border border-slate-700/50">
+                      {(Object.keys(REDACTION_LABELS) as RedactionMethod[]).map(method => (
+                        <button
+                          key={method}
+                          type="button"
+                          onClick={() => setState(prev => ({ ...prev, redaction: method }))}
+                          className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${state.redaction === method ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+                        >
+                          {REDACTION_LABELS[method]}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2">
+                      {state.redaction === 'remove'
+                        ? 'The AI removes each plate and fills in the bumper behind it.'
+                        : 'Applied locally inside each detected plate. Nothing is sent to the AI except for finding the plates.'}
+                    </p>
+                  </div>
+                )}
 
-                <div>
-                  <label className="block text-sm font-medium text-slate-400 mb-1">New Plate Number</label>
-                  <input 
-                    type="text" 
-                    placeholder="e.g., ABC 1234"
-                    value={state.plateNumber}
-                    onChange={(e) => setState(prev => ({ ...prev, plateNumber: e.target.value.toUpperCase() }))}
-                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium tracking-wider uppercase"
+                {showPlacement && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">Plate Position</label>
+                    <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg border border-slate-700/50">
+                      {(Object.keys(PLACEMENT_LABELS) as PlatePlacement[]).map(placement => (
+                        <button
+                          key={placement}
+                          type="button"
+                          onClick={() => handlePlacementChange(placement)}
+                          className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${state.placement === placement ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+                        >
+                          {PLACEMENT_LABELS[placement]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {!hasTargets && !isRedact && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-400 mb-1">{bothPlates ? 'Front Plate Country / Style' : 'Plate Country / Style'}</label>
+                      <CountryPicker 
+                        value={state.plateCountry}
+                        onChange={handleCountryChange}
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-slate-400 mb-1">{bothPlates ? 'Front Plate Number' : 'New Plate Number'}</label>
+                      <input 
+                        type="text" 
+                        placeholder={`e.g., ${plateFormat?.example || 'ABC 1234'}`}
+                        value={state.plateNumber}
+                        onChange={(e) => handlePlateNumberChange(e.target.value)}
+                        className={`w-full bg-slate-800 border rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium tracking-wider uppercase ${plateNumberError ? 'border-amber-500/60' : 'border-slate-700'}`}
+                      />
+                      {plateNumberError && (
+                        <p className="text-xs text-amber-400 mt-1">{plateNumberError}</p>
+                      )}
+                    </div>
+
+                    {bothPlates && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">Rear Plate Country / Style</label>
+                          <CountryPicker
+                            value={state.rearPlate.plateCountry}
+                            onChange={handleRearCountryChange}
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium"
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-slate-400 mb-1">Rear Plate Number</label>
+                          <input
+                            type="text"
+                            placeholder={`e.g., ${rearFormat?.example || 'ABC 1234'}`}
+                            value={state.rearPlate.plateNumber}
+                            onChange={(e) => handleRearPlateNumberChange(e.target.value)}
+                            className={`w-full bg-slate-800 border rounded-lg px-4 py-3 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none font-medium tracking-wider uppercase ${rearNumberError ? 'border-amber-500/60' : 'border-slate-700'}`}
+                          />
+                          {rearNumberError && (
+                            <p className="text-xs text-amber-400 mt-1">{rearNumberError}</p>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </>
+                )}
+
+                {state.originalImage && !isRedact && (
+                  <div className="pt-2">
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium text-slate-400">Vehicles</label>
+                      <button
+                        type="button"
+                        onClick={handleDetectVehicles}
+                        disabled={isDetecting || state.isGenerating}
+                        className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+                      >
+                        {isDetecting ? 'Detecting...' : state.vehicles ? 'Detect Again' : 'Detect Vehicles'}
+                      </button>
+                    </div>
+                    {state.vehicles ? (
+                      <VehicleTargetList
+                        vehicles={state.vehicles}
+                        targets={state.vehicleTargets}
+                        onToggle={handleToggleVehicle}
+                        onChange={(vehicleTargets) => setState(prev => ({ ...prev, vehicleTargets }))}
+                        disabled={state.isGenerating}
+                        freeformNumbers={freeformNumbers}
+                      />
+                    ) : (
+                      <p className="text-xs text-slate-500">Several cars in the photo? Detect them and pick which ones to edit.</p>
+                    )}
+                  </div>
+                )}
+
+                {state.mode === 'composite' ? (
+                  <CompositeControls
+                    options={state.compositeOptions}
+                    onChange={(compositeOptions) => setState(prev => ({ ...prev, compositeOptions }))}
                   />
-                </div>
+                ) : !isRedact && (
+                  <div className="space-y-4">
+                    <div className="pt-2">
+                      <label className="block text-sm font-medium text-slate-400 mb-2">Plate Style</label>
+                      <PlateStyleControls
+                        style={state.plateStyle}
+                        onChange={(plateStyle) => setState(prev => ({ ...prev, plateStyle }))}
+                        disabled={state.isGenerating}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="flex items-center justify-between text-sm text-slate-400">
+                        Variants per run
+                        <select
+                          value={state.variants}
+                          onChange={(e) => setState(prev => ({ ...prev, variants: Number(e.target.value) }))}
+                          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1 text-sm text-white outline-none"
+                        >
+                          {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n === 1 ? '1 (one at a time)' : `${n} in parallel`}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center text-sm text-slate-400">
+                        <input
+                          type="checkbox"
+                          checked={state.cropAndStitch}
+                          onChange={(e) => setState(prev => ({ ...prev, cropAndStitch: e.target.checked }))}
+                          className="mr-2"
+                        />
+                        Only edit the plate area and keep the rest of the photo untouched
+                      </label>
+                      <label className={`flex items-center text-sm ${state.plateRegion ? 'text-slate-400' : 'text-slate-600'}`}>
+                        <input
+                          type="checkbox"
+                          checked={state.compositeFallback && !!state.plateRegion}
+                          disabled={!state.plateRegion}
+                          onChange={(e) => setState(prev => ({ ...prev, compositeFallback: e.target.checked }))}
+                          className="mr-2"
+                        />
+                        Render locally if AI verification keeps failing
+                      </label>
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="mt-8 pt-6 border-t border-slate-800">
+                 {state.mode !== 'composite' && (
+                    <label className="flex items-center text-sm text-slate-400 mb-4">
+                      <input
+                        type="checkbox"
+                        checked={state.forceFresh}
+                        onChange={(e) => setState(prev => ({ ...prev, forceFresh: e.target.checked }))}
+                        className="mr-2"
+                      />
+                      Force fresh: ignore cached detections and results
+                    </label>
+                 )}
                  <Button 
                     type="submit"
                     isLoading={state.isGenerating}
-                    disabled={!state.originalImage || !state.plateNumber || !state.plateCountry}
+                    disabled={!state.originalImage || budgetCheck.status === 'block' || (!isRedact && (hasTargets
+                      ? targetsIncomplete || (state.mode === 'composite' && state.vehicleTargets.some(target => !target.vehicle.plate))
+                      : !state.plateNumber || !state.plateCountry || !!plateNumberError || (state.mode === 'composite' && !state.plateRegion)
+                        || (bothPlates && (!state.rearPlate.plateNumber || !state.rearPlate.plateCountry || !!rearNumberError))))}
                     className="w-full"
                  >
-                   {state.isGenerating ? 'Processing...' : (state.mode === 'add' ? 'Add New Plate' : 'Replace Existing Plate')}
+                   {state.isGenerating ? 'Processing...' : (state.mode === 'add' ? 'Add New Plate' : state.mode === 'replace' ? 'Replace Existing Plate' : isRedact ? 'Redact Plates' : 'Render Plate')}
                  </Button>
+                 {/* Here rather than over the result, so a run started while a result is shown can still be stopped. */}
+                 {state.isGenerating && (
+                    <>
+                      {state.generatedImage && state.statusMessage && (
+                        <p className="text-center text-xs text-indigo-400 mt-3">{state.statusMessage}</p>
+                      )}
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={handleCancel}
+                        className="w-full mt-3"
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                 )}
                  {!state.originalImage && (
                     <p className="text-center text-xs text-slate-500 mt-3">Please upload a car image first</p>
                  )}
+                 {budgetCheck.message && (
+                    <p className={`text-center text-xs mt-3 ${budgetCheck.status === 'block' ? 'text-red-400' : 'text-amber-400'}`}>
+                      {budgetCheck.message}{budgetCheck.status === 'block' ? ' Raise the budget to continue.' : ''}
+                    </p>
+                 )}
+                 {state.originalImage && state.mode === 'composite' && !hasTargets && !state.plateRegion && (
+                    <p className="text-center text-xs text-slate-500 mt-3">Mark the plate area on the image first</p>
+                 )}
               </div>
             </form>
 
+            <SessionUsagePanel />
+
+            <CachePanel refreshKey={state.lastResult} />
+
             {/* Instructions Panel */}
             <div className="bg-slate-900/90 backdrop-blur-sm p-6 rounded-2xl border border-slate-800">
               <h3 className="text-sm font-semibold text-slate-300 mb-3">How it works</h3>
@@ -186,13 +795,27 @@ export const App: React.FC = () => {
                     <li>Type the alphanumeric characters.</li>
                     <li>AI adds a brand new plate to the bumper.</li>
                 </ol>
-              ) : (
+              ) : state.mode === 'replace' ? (
                 <ol className="list-decimal list-inside space-y-2 text-sm text-slate-400">
                     <li>Upload a photo of a car with a plate.</li>
                     <li>Enter the desired country style.</li>
                     <li>Type the new alphanumeric characters.</li>
                     <li>AI swaps the old plate for the new one.</li>
                 </ol>
+              ) : isRedact ? (
+                <ol className="list-decimal list-inside space-y-2 text-sm text-slate-400">
+                    <li>Upload a photo with one or more cars.</li>
+                    <li>Choose blur, pixelate or remove.</li>
+                    <li>Optionally mark a plate that detection might miss.</li>
+                    <li>Every plate found is hidden.</li>
+                </ol>
+              ) : (
+                <ol className="list-decimal list-inside space-y-2 text-sm text-slate-400">
+                    <li>Upload a photo of a car.</li>
+                    <li>Mark the four corners of the plate area.</li>
+                    <li>Enter the country style and characters.</li>
+                    <li>The plate is drawn locally, with no AI, and gives the same result every time.</li>
+                </ol>
               )}
             </div>
           </div>
@@ -204,7 +827,10 @@ export const App: React.FC = () => {
                 <svg className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                <span>{state.error}</span>
+                <div>
+                  <p>{state.error.message}</p>
+                  {state.error.action && <p className="text-sm text-red-300/80 mt-1">{state.error.action}</p>}
+                </div>
               </div>
             )}
 
@@ -213,25 +839,55 @@ export const App: React.FC = () => {
               <ImageUploader 
                 currentImage={state.originalImage} 
                 onImageSelect={handleImageSelect} 
-                label={state.mode === 'add' ? "Upload Car (No Plate)" : "Upload Car (With Plate)"}
+                onError={(err) => setState(prev => ({ ...prev, error: toErrorNotice(err) }))}
+                region={state.plateRegion}
+                onRegionChange={(plateRegion) => setState(prev => ({ ...prev, plateRegion }))}
+                overlay={state.vehicles && state.vehicles.length > 0 ? (
+                  <VehicleOverlay
+                    vehicles={state.vehicles}
+                    selectedIds={state.vehicleTargets.map(target => target.vehicle.id)}
+                    onToggle={handleToggleVehicle}
+                    disabled={state.isGenerating}
+                  />
+                ) : undefined}
+                label={state.mode === 'add' ? "Upload Car (No Plate)" : state.mode === 'replace' ? "Upload Car (With Plate)" : "Upload Car"}
                 className="backdrop-blur-sm bg-slate-800/50"
               />
 
               {/* Result View */}
               {state.generatedImage ? (
+                 <div className="space-y-4">
                  <div className="relative w-full h-full min-h-[300px] bg-slate-800/80 backdrop-blur-sm rounded-xl overflow-hidden border border-indigo-500/30 shadow-2xl shadow-indigo-900/20">
                   <img 
                     src={state.generatedImage} 
                     alt="Generated Car" 
                     className="w-full h-full object-contain bg-slate-900/50"
                   />
+                  {showHeatmap && state.lastResult?.changeHeatmap && (
+                    <img
+                      src={state.lastResult.changeHeatmap}
+                      alt="Changes outside the plate"
+                      className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                    />
+                  )}
                   <div className="absolute top-4 left-4 bg-indigo-600 text-white text-xs px-2 py-1 rounded shadow-lg font-semibold">
-                    AI Generated Result
+                    {state.lastResult?.source === 'composite' ? 'Locally Rendered Result' : 'AI Generated Result'}
+                    {state.lastResult?.fromCache && <span className="ml-2 font-normal opacity-80">· from cache</span>}
                   </div>
                   <div className="absolute bottom-4 right-4 flex space-x-2">
+                    {state.lastResult?.changeHeatmap && (
+                      <Button
+                        type="button"
+                        onClick={() => setShowHeatmap(prev => !prev)}
+                        variant="secondary"
+                        className="py-2 px-4 text-sm"
+                      >
+                        {showHeatmap ? 'Hide Changes' : 'Show Changes'}
+                      </Button>
+                    )}
                     <Button 
                       type="button"
-                      onClick={handleDownload}
+                      onClick={() => handleDownload()}
                       variant="primary"
                       className="py-2 px-4 text-sm"
                     >
@@ -242,13 +898,69 @@ export const App: React.FC = () => {
                     </Button>
                   </div>
                 </div>
+                {state.lastResult?.candidates && state.originalImage && (
+                  <CandidateGrid
+                    candidates={state.lastResult.candidates}
+                    originalImage={state.originalImage}
+                    selectedImage={state.generatedImage}
+                    onKeep={handleKeepCandidate}
+                    onDownload={handleDownload}
+                  />
+                )}
+                {state.versions[state.versionIndex]?.plates.length > 0 && (
+                  <FollowUpPanel
+                    versions={state.versions}
+                    versionIndex={state.versionIndex}
+                    onSelect={handleSelectVersion}
+                    onSubmit={handleFollowUp}
+                    onCancel={handleCancel}
+                    isWorking={state.isGenerating}
+                    statusMessage={state.statusMessage}
+                  />
+                )}
+                <ExportPanel
+                  settings={exportSettings}
+                  onChange={setExportSettings}
+                  fileName={formatExportFileName(exportSettings.fileNamePattern, getProvenance(), exportSettings.format)}
+                />
+                {state.lastResult?.redactedAreas && (
+                  <p className="text-sm text-slate-400">
+                    {state.lastResult.redactedAreas.length} plate{state.lastResult.redactedAreas.length === 1 ? '' : 's'} redacted
+                    {!state.lastResult.verified && <span className="text-amber-400"> · a plate may still be visible, check the result</span>}
+                  </p>
+                )}
+                {state.lastResult?.plateResults && (
+                  <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-1">
+                    {state.lastResult.plateResults.map((result, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm">
+                        <span className="text-slate-300 capitalize">
+                          {result.vehicleId
+                            ? state.vehicles?.find(vehicle => vehicle.id === result.vehicleId)?.label || result.vehicleId
+                            : `${result.position} plate`}
+                        </span>
+                        <span className="font-mono tracking-wider text-white">{result.plateNumber}</span>
+                        <span className={`text-xs ${result.verified ? 'text-emerald-400' : 'text-amber-400'}`}>
+                          {result.verified ? 'Verified' : result.verification ? `${Math.round(result.verification.similarity * 100)}% match` : 'Unverified'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {state.lastResult?.verification && (
+                  <VerificationReportPanel
+                    report={state.lastResult.verification}
+                    attemptReports={state.lastResult.attemptReports}
+                  />
+                )}
+                {state.lastResult?.usage && <UsageSummary usage={state.lastResult.usage} />}
+                </div>
               ) : (
                 state.originalImage && state.isGenerating ? (
                     <div className="w-full h-[400px] bg-slate-900/80 backdrop-blur-sm rounded-xl border border-slate-800 flex flex-col items-center justify-center animate-pulse">
                         <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                         <p className="text-indigo-400 font-medium">{state.statusMessage || 'Processing...'}</p>
                         <p className="text-slate-500 text-sm mt-2">
-                          {state.mode === 'add' ? 'Adding new plate to bumper...' : 'Swapping existing plate...'}
+                          {state.mode === 'add' ? 'Adding new plate to bumper...' : state.mode === 'replace' ? 'Swapping existing plate...' : isRedact ? 'Hiding every license plate...' : 'Rendering plate into marked area...'}
                         </p>
                     </div>
                 ) : (
@@ -262,6 +974,7 @@ export const App: React.FC = () => {
             </div>
           </div>
         </div>
+        )}
       </main>
 
       <footer className="w-full py-6 text-center relative z-10">
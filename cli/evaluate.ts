@@ -0,0 +1,224 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { generatePlate } from '../services/geminiService';
+import { createGeminiProvider, createMockProvider, getImageProvider, ImageModelProvider, setImageProvider } from '../services/providers';
+import { runWithConcurrency } from '../services/batchService';
+import { isAbortError } from '../services/abort';
+import { MissingApiKeyError, toErrorNotice, VerificationFailedError } from '../services/errors';
+import { findPlateFormat, formatPlateNumber } from '../services/plateFormats';
+import { loadInputImage } from './nodeImage';
+import { createRecordingProvider, createReplayProvider } from './recordedProvider';
+import {
+  compareRuns,
+  EvalItemResult,
+  EvalRun,
+  parseManifest,
+  renderComparisonHtml,
+  scoreItem,
+  summarizeRun,
+} from './evaluation';
+import { GenerationResult } from '../types';
+
+const USAGE = `Usage: platemorph-eval <manifest.json> [options]
+       platemorph-eval --compare <baseline run.json> <candidate run.json> [--out <dir>]
+
+Runs every image in the manifest through the generation pipeline and writes
+run.json with the verification pass rate, edit distance, attempts and latency.
+With --baseline, or in --compare mode, also writes comparison.json and
+comparison.html.
+
+Options:
+      --label <name>      Name of this run in reports (default: the provider and time)
+      --baseline <file>   Earlier run.json to compare this run against
+  -o, --out <dir>         Output directory (default: platemorph-eval)
+      --provider <name>   gemini or mock (default: IMAGE_PROVIDER, else gemini)
+      --endpoint <url>    Gemini-compatible API endpoint, e.g. a local stand-in server
+      --record <dir>      Save every model response to <dir> while running
+      --replay <dir>      Answer from responses saved with --record, without a network
+      --concurrency <n>   Images run at the same time (default: 1, which keeps latency comparable)
+  -h, --help              Show this help`;
+
+class UsageError extends Error {}
+
+const parseCommandLine = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      compare: { type: 'boolean', default: false },
+      label: { type: 'string' },
+      baseline: { type: 'string' },
+      out: { type: 'string', short: 'o', default: 'platemorph-eval' },
+      provider: { type: 'string' },
+      endpoint: { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      concurrency: { type: 'string', default: '1' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (values.compare && positionals.length !== 2) throw new UsageError("--compare takes a baseline and a candidate run.json.");
+  if (!values.compare && positionals.length !== 1) throw new UsageError("Give exactly one manifest.");
+  if (values.record && values.replay) throw new UsageError("--record and --replay cannot be combined.");
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency must be a whole number of at least 1.");
+  return {
+    compare: values.compare,
+    inputs: positionals,
+    label: values.label,
+    baseline: values.baseline,
+    out: values.out,
+    provider: values.provider,
+    endpoint: values.endpoint,
+    record: values.record,
+    replay: values.replay,
+    concurrency,
+  };
+};
+
+type Args = NonNullable<ReturnType<typeof parseCommandLine>>;
+
+const configureProvider = (args: Args) => {
+  if (args.replay) {
+    setImageProvider(createReplayProvider(path.resolve(args.replay)));
+    return;
+  }
+  const name = args.provider || process.env.IMAGE_PROVIDER || 'gemini';
+  let provider: ImageModelProvider;
+  switch (name) {
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'gemini':
+      provider = createGeminiProvider(process.env.GEMINI_API_KEY || process.env.API_KEY, {
+        baseUrl: args.endpoint || process.env.GEMINI_BASE_URL || undefined,
+      });
+      break;
+    default:
+      throw new UsageError(`Unknown provider "${name}". Use gemini or mock.`);
+  }
+  setImageProvider(args.record ? createRecordingProvider(provider, path.resolve(args.record)) : provider);
+};
+
+const readRun = async (file: string): Promise<EvalRun> => {
+  const run = JSON.parse(await readFile(file, 'utf8'));
+  if (!run?.summary || !Array.isArray(run.items)) {
+    throw new Error(`${file} is not a run.json written by this tool.`);
+  }
+  return run;
+};
+
+const writeComparison = async (outDir: string, baseline: EvalRun, candidate: EvalRun) => {
+  const comparison = compareRuns(baseline, candidate);
+  await writeFile(path.join(outDir, 'comparison.json'), JSON.stringify(comparison, null, 2));
+  await writeFile(path.join(outDir, 'comparison.html'), renderComparisonHtml(comparison));
+  const counts = comparison.items.reduce<Record<string, number>>((acc, item) => ({ ...acc, [item.change]: (acc[item.change] || 0) + 1 }), {});
+  console.log(`Compared with ${baseline.label}: ${Object.entries(counts).map(([change, count]) => `${count} ${change}`).join(', ')}. Report: ${path.join(outDir, 'comparison.html')}`);
+  return comparison;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const evaluate = async (args: Args, outDir: string, signal: AbortSignal): Promise<EvalRun> => {
+  const manifestPath = path.resolve(args.inputs[0]);
+  const manifest = parseManifest(JSON.parse(await readFile(manifestPath, 'utf8')), path.basename(manifestPath, '.json'));
+  const baseDir = path.dirname(manifestPath);
+
+  const results = new Map<string, EvalItemResult>();
+  await runWithConcurrency(manifest.items.map((item, index) => ({ item, index })), args.concurrency, async ({ item, index }) => {
+    const label = `[${index + 1}/${manifest.items.length}] ${item.id}`;
+    const format = findPlateFormat(item.plateCountry);
+    const plateNumber = format ? formatPlateNumber(item.plateNumber, format) : item.plateNumber.toUpperCase();
+    const startedAt = Date.now();
+    let result: GenerationResult | null = null;
+    let error: string | null = null;
+    try {
+      const image = await loadInputImage(path.resolve(baseDir, item.image));
+      result = await generatePlate(image.dataUrl, plateNumber, item.plateCountry, item.mode, undefined, {
+        skipDetection: item.skipDetection,
+        signal,
+      });
+    } catch (err) {
+      // The best attempt is still scored: how close it came is what a prompt change moves.
+      result = err instanceof VerificationFailedError ? err.result : null;
+      error = isAbortError(err) ? 'Cancelled.' : result ? null : toErrorNotice(err).message;
+    }
+    const scored = scoreItem({ ...item, plateNumber }, result, error, Date.now() - startedAt);
+    results.set(item.id, scored);
+    console.error(`${label}: ${scored.status}${scored.error ? ` (${scored.error})` : scored.ocrText !== null ? `, read "${scored.ocrText}"` : ''}`);
+  });
+
+  const items = manifest.items.map(item => results.get(item.id)!);
+  const generatedAt = new Date().toISOString();
+  const provider = getImageProvider().name;
+  const run: EvalRun = {
+    label: args.label || `${provider} ${generatedAt}`,
+    manifest: manifest.name,
+    provider,
+    generatedAt,
+    summary: summarizeRun(items),
+    items,
+  };
+  await writeFile(path.join(outDir, 'run.json'), JSON.stringify(run, null, 2));
+
+  const { summary } = run;
+  console.log(`${summary.passed}/${summary.items} passed (${percent(summary.passRate)}), ${summary.errors} error${summary.errors === 1 ? '' : 's'}, `
+    + `mean similarity ${summary.meanSimilarity === null ? '—' : percent(summary.meanSimilarity)}, p50 ${Math.round(summary.latencyMs.p50)} ms. Results: ${path.join(outDir, 'run.json')}`);
+  return run;
+};
+
+const main = async (): Promise<number> => {
+  let args: Args | null;
+  try {
+    args = parseCommandLine();
+  } catch (e: any) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const outDir = path.resolve(args.out || 'platemorph-eval');
+  await mkdir(outDir, { recursive: true });
+
+  if (args.compare) {
+    const [baseline, candidate] = await Promise.all(args.inputs.map(readRun));
+    const comparison = await writeComparison(outDir, baseline, candidate);
+    return comparison.items.some(item => item.change === 'regressed') ? 1 : 0;
+  }
+
+  try {
+    configureProvider(args);
+  } catch (e) {
+    const notice = toErrorNotice(e);
+    const action = e instanceof MissingApiKeyError ? "Set GEMINI_API_KEY, or pass --provider mock or --replay <dir> to work offline." : notice.action;
+    console.error([notice.message, action].filter(Boolean).join(' '));
+    return 2;
+  }
+
+  const baseline = args.baseline ? await readRun(args.baseline) : null;
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error("\nCancelling...");
+    controller.abort();
+  });
+
+  const run = await evaluate(args, outDir, controller.signal);
+  if (controller.signal.aborted) return 130;
+  if (baseline) {
+    const comparison = await writeComparison(outDir, baseline, run);
+    if (comparison.items.some(item => item.change === 'regressed')) return 1;
+  }
+  return run.summary.errors > 0 ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((e) => {
+    console.error(e?.message || e);
+    process.exit(1);
+  });
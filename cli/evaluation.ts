@@ -0,0 +1,274 @@
+import { GenerationResult, PlateMode } from '../types';
+
+/** One image to evaluate, as listed in the dataset manifest. */
+export interface ManifestItem {
+  /** Stable name used to match the item across runs. Defaults to the image path. */
+  id: string;
+  /** Path to the image, relative to the manifest. */
+  image: string;
+  plateNumber: string;
+  plateCountry: string;
+  mode: Extract<PlateMode, 'add' | 'replace'>;
+  skipDetection: boolean;
+}
+
+export interface Manifest {
+  name: string;
+  items: ManifestItem[];
+}
+
+export type EvalStatus = 'passed' | 'failed' | 'error';
+
+export interface EvalItemResult {
+  id: string;
+  plateNumber: string;
+  plateCountry: string;
+  mode: ManifestItem['mode'];
+  status: EvalStatus;
+  attempts: number;
+  /** Text read from the returned image; null when nothing was verified. */
+  ocrText: string | null;
+  /** Character edits between the expected and the read text. */
+  distance: number | null;
+  similarity: number | null;
+  durationMs: number;
+  modelCalls: number;
+  costUsd: number;
+  error: string | null;
+}
+
+export interface EvalSummary {
+  items: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  passRate: number;
+  /** Means over items that returned an image. */
+  meanSimilarity: number | null;
+  meanDistance: number | null;
+  meanAttempts: number | null;
+  latencyMs: { mean: number; p50: number; p95: number };
+  modelCalls: number;
+  costUsd: number;
+}
+
+/** Contents of run.json. */
+export interface EvalRun {
+  label: string;
+  manifest: string;
+  provider: string;
+  generatedAt: string;
+  summary: EvalSummary;
+  items: EvalItemResult[];
+}
+
+export type ItemChange = 'improved' | 'regressed' | 'unchanged' | 'added' | 'removed';
+
+export interface ItemComparison {
+  id: string;
+  change: ItemChange;
+  baseline: EvalItemResult | null;
+  candidate: EvalItemResult | null;
+}
+
+export interface MetricComparison {
+  label: string;
+  baseline: number | null;
+  candidate: number | null;
+  /** Whether a higher value is better, or null for metrics with no direction. */
+  higherIsBetter: boolean | null;
+}
+
+/** Contents of comparison.json. */
+export interface EvalComparison {
+  baseline: Omit<EvalRun, 'items' | 'summary'>;
+  candidate: Omit<EvalRun, 'items' | 'summary'>;
+  metrics: MetricComparison[];
+  items: ItemComparison[];
+}
+
+const MODES = ['add', 'replace'];
+
+/**
+ * Validates a parsed manifest. Accepts either `{ name, items: [...] }` or a
+ * bare array of items; throws with the position of the first bad item.
+ */
+export const parseManifest = (data: unknown, fallbackName: string): Manifest => {
+  const root = Array.isArray(data) ? { items: data } : (data as { name?: unknown; items?: unknown }) ?? {};
+  if (!Array.isArray(root.items) || root.items.length === 0) {
+    throw new Error("The manifest needs a non-empty \"items\" array.");
+  }
+  const ids = new Set<string>();
+  const items = root.items.map((raw: any, index: number): ManifestItem => {
+    const where = `Manifest item ${index + 1}`;
+    if (!raw || typeof raw.image !== 'string' || !raw.image) throw new Error(`${where} has no "image" path.`);
+    if (typeof raw.plateNumber !== 'string' || !raw.plateNumber.trim()) throw new Error(`${where} has no "plateNumber".`);
+    if (typeof raw.plateCountry !== 'string' || !raw.plateCountry.trim()) throw new Error(`${where} has no "plateCountry".`);
+    const mode = raw.mode ?? 'add';
+    if (!MODES.includes(mode)) throw new Error(`${where} has unknown mode "${mode}". Use add or replace.`);
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : raw.image;
+    if (ids.has(id)) throw new Error(`${where} repeats the id "${id}".`);
+    ids.add(id);
+    return { id, image: raw.image, plateNumber: raw.plateNumber, plateCountry: raw.plateCountry, mode, skipDetection: raw.skipDetection === true };
+  });
+  return { name: typeof root.name === 'string' && root.name ? root.name : fallbackName, items };
+};
+
+/** Scores one run of the pipeline. `result` is the best attempt, also when verification failed. */
+export const scoreItem = (
+  item: ManifestItem,
+  result: GenerationResult | null,
+  error: string | null,
+  durationMs: number
+): EvalItemResult => {
+  const verification = result?.verification ?? null;
+  return {
+    id: item.id,
+    plateNumber: item.plateNumber,
+    plateCountry: item.plateCountry,
+    mode: item.mode,
+    status: !result ? 'error' : result.verified ? 'passed' : 'failed',
+    attempts: result?.attempts ?? 0,
+    ocrText: verification?.ocrText ?? null,
+    distance: verification?.distance ?? null,
+    similarity: verification?.similarity ?? null,
+    durationMs,
+    modelCalls: result?.usage?.calls.length ?? 0,
+    costUsd: result?.usage?.costUsd ?? 0,
+    error,
+  };
+};
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)] : 0;
+
+export const summarizeRun = (items: EvalItemResult[]): EvalSummary => {
+  const scored = items.filter(item => item.status !== 'error');
+  const latencies = items.map(item => item.durationMs).sort((a, b) => a - b);
+  const passed = items.filter(item => item.status === 'passed').length;
+  return {
+    items: items.length,
+    passed,
+    failed: items.filter(item => item.status === 'failed').length,
+    errors: items.length - scored.length,
+    passRate: items.length ? passed / items.length : 0,
+    meanSimilarity: mean(scored.flatMap(item => (item.similarity === null ? [] : [item.similarity]))),
+    meanDistance: mean(scored.flatMap(item => (item.distance === null ? [] : [item.distance]))),
+    meanAttempts: mean(scored.map(item => item.attempts)),
+    latencyMs: { mean: mean(latencies) ?? 0, p50: percentile(latencies, 0.5), p95: percentile(latencies, 0.95) },
+    modelCalls: items.reduce((sum, item) => sum + item.modelCalls, 0),
+    costUsd: items.reduce((sum, item) => sum + item.costUsd, 0),
+  };
+};
+
+const STATUS_RANK: Record<EvalStatus, number> = { error: 0, failed: 1, passed: 2 };
+
+/** Ranks an item's outcome: status first, then how close the read text came. */
+const itemScore = (item: EvalItemResult) => STATUS_RANK[item.status] + (item.similarity ?? 0) / 10;
+
+export const compareRuns = (baseline: EvalRun, candidate: EvalRun): EvalComparison => {
+  const before = baseline.summary;
+  const after = candidate.summary;
+  const metrics: MetricComparison[] = [
+    { label: 'Pass rate', baseline: before.passRate, candidate: after.passRate, higherIsBetter: true },
+    { label: 'Mean similarity', baseline: before.meanSimilarity, candidate: after.meanSimilarity, higherIsBetter: true },
+    { label: 'Mean edit distance', baseline: before.meanDistance, candidate: after.meanDistance, higherIsBetter: false },
+    { label: 'Mean attempts', baseline: before.meanAttempts, candidate: after.meanAttempts, higherIsBetter: false },
+    { label: 'Errors', baseline: before.errors, candidate: after.errors, higherIsBetter: false },
+    { label: 'Latency p50 (ms)', baseline: before.latencyMs.p50, candidate: after.latencyMs.p50, higherIsBetter: false },
+    { label: 'Latency p95 (ms)', baseline: before.latencyMs.p95, candidate: after.latencyMs.p95, higherIsBetter: false },
+    { label: 'Model calls', baseline: before.modelCalls, candidate: after.modelCalls, higherIsBetter: false },
+    { label: 'Cost (USD)', baseline: before.costUsd, candidate: after.costUsd, higherIsBetter: false },
+  ];
+
+  const baselineById = new Map(baseline.items.map(item => [item.id, item]));
+  const candidateById = new Map(candidate.items.map(item => [item.id, item]));
+  const ids = [...new Set([...baselineById.keys(), ...candidateById.keys()])];
+  const items = ids.map((id): ItemComparison => {
+    const old = baselineById.get(id) ?? null;
+    const next = candidateById.get(id) ?? null;
+    let change: ItemChange = 'unchanged';
+    if (!old) change = 'added';
+    else if (!next) change = 'removed';
+    else if (itemScore(next) > itemScore(old)) change = 'improved';
+    else if (itemScore(next) < itemScore(old)) change = 'regressed';
+    return { id, change, baseline: old, candidate: next };
+  });
+
+  const describeRun = (run: EvalRun) => ({ label: run.label, manifest: run.manifest, provider: run.provider, generatedAt: run.generatedAt });
+  return { baseline: describeRun(baseline), candidate: describeRun(candidate), metrics, items };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatMetric = (label: string, value: number | null) => {
+  if (value === null) return '—';
+  if (label === 'Pass rate' || label === 'Mean similarity') return `${(value * 100).toFixed(1)}%`;
+  if (label === 'Cost (USD)') return `$${value.toFixed(4)}`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+const describeItem = (item: EvalItemResult | null) => {
+  if (!item) return '—';
+  const detail = item.status === 'error'
+    ? item.error || 'error'
+    : `read "${item.ocrText ?? ''}" · ${item.attempts} attempt${item.attempts === 1 ? '' : 's'} · ${(item.durationMs / 1000).toFixed(1)}s`;
+  return `<span class="${item.status}">${item.status}</span> <small>${escapeHtml(detail)}</small>`;
+};
+
+const STYLE = `body{font:14px system-ui,sans-serif;margin:2rem;color:#0f172a}
+table{border-collapse:collapse;margin:1rem 0;width:100%}th,td{border-bottom:1px solid #e2e8f0;padding:.4rem .6rem;text-align:left}
+th{background:#f8fafc}.passed,.improved,.better{color:#047857}.failed,.worse{color:#b45309}.error,.regressed{color:#b91c1c}
+small{color:#64748b}code{background:#f1f5f9;padding:0 .25rem}`;
+
+/**
+ * Self-contained HTML page comparing two runs: the headline metrics with
+ * their change, then every item with regressions listed first.
+ */
+export const renderComparisonHtml = (comparison: EvalComparison): string => {
+  const { baseline, candidate } = comparison;
+  const metricRows = comparison.metrics.map(metric => {
+    const delta = metric.baseline !== null && metric.candidate !== null ? metric.candidate - metric.baseline : null;
+    const direction = delta === null || delta === 0 || metric.higherIsBetter === null
+      ? ''
+      : (delta > 0) === metric.higherIsBetter ? 'better' : 'worse';
+    const sign = delta !== null && delta > 0 ? '+' : '';
+    return `<tr><td>${metric.label}</td><td>${formatMetric(metric.label, metric.baseline)}</td><td>${formatMetric(metric.label, metric.candidate)}</td>`
+      + `<td class="${direction}">${delta === null ? '—' : sign + formatMetric(metric.label, delta)}</td></tr>`;
+  }).join('\n');
+
+  const order: Record<ItemChange, number> = { regressed: 0, improved: 1, added: 2, removed: 3, unchanged: 4 };
+  const itemRows = [...comparison.items]
+    .sort((a, b) => order[a.change] - order[b.change])
+    .map(item => {
+      const plate = item.candidate ?? item.baseline!;
+      return `<tr><td><code>${escapeHtml(item.id)}</code><br><small>${escapeHtml(plate.plateNumber)} · ${escapeHtml(plate.plateCountry)} · ${plate.mode}</small></td>`
+        + `<td class="${item.change}">${item.change}</td><td>${describeItem(item.baseline)}</td><td>${describeItem(item.candidate)}</td></tr>`;
+    }).join('\n');
+
+  const counts = comparison.items.reduce<Record<string, number>>((acc, item) => ({ ...acc, [item.change]: (acc[item.change] || 0) + 1 }), {});
+  const runInfo = (run: EvalComparison['baseline']) =>
+    `<b>${escapeHtml(run.label)}</b> <small>${escapeHtml(run.provider)} · ${escapeHtml(run.generatedAt)}</small>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>PlateMorph evaluation: ${escapeHtml(candidate.label)} vs ${escapeHtml(baseline.label)}</title><style>${STYLE}</style></head>
+<body>
+<h1>PlateMorph evaluation</h1>
+<p>Dataset <code>${escapeHtml(candidate.manifest)}</code>. Baseline ${runInfo(baseline)}, candidate ${runInfo(candidate)}.</p>
+<p>${Object.entries(counts).map(([change, count]) => `<span class="${change}">${count} ${change}</span>`).join(' · ')}</p>
+<h2>Metrics</h2>
+<table><thead><tr><th>Metric</th><th>Baseline</th><th>Candidate</th><th>Change</th></tr></thead><tbody>
+${metricRows}
+</tbody></table>
+<h2>Items</h2>
+<table><thead><tr><th>Item</th><th>Change</th><th>Baseline</th><th>Candidate</th></tr></thead><tbody>
+${itemRows}
+</tbody></table>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,83 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif', '.gif', '.tif', '.tiff']);
+
+const isImageFile = (filePath: string) => IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+
+const hasGlob = (value: string) => /[*?{]/.test(value);
+
+/**
+ * Converts a glob with `*`, `**`, `?` and `{a,b}` into an anchored regex over
+ * forward-slash paths.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = glob.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.replace(/\\/g, '/').split('/');
+  const firstGlob = segments.findIndex(hasGlob);
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join('/'));
+  const recursive = rest.length > 1 || rest[0].includes('**');
+
+  const entries = await readdir(base, { recursive, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(entry.parentPath ?? base, entry.name))
+    .filter(filePath => matcher.test(path.relative(base, filePath).split(path.sep).join('/')));
+};
+
+/**
+ * Resolves the command-line inputs to image files. Each input may be a file,
+ * a directory (its images, not recursive) or a glob, so patterns work the same
+ * when the shell does not expand them. Results are de-duplicated and sorted.
+ */
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+  for (const input of inputs) {
+    if (hasGlob(input)) {
+      (await expandGlob(input)).filter(isImageFile).forEach(file => files.add(file));
+      continue;
+    }
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      throw new Error(`No such file or directory: ${input}`);
+    }
+    if (info.isDirectory()) {
+      const entries = await readdir(input, { withFileTypes: true });
+      entries
+        .filter(entry => entry.isFile() && isImageFile(entry.name))
+        .forEach(entry => files.add(path.join(input, entry.name)));
+    } else {
+      files.add(input);
+    }
+  }
+  return Array.from(files).sort();
+};
@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import { UnsupportedInputError } from '../services/errors';
+
+const JPEG_QUALITY = 95;
+
+export interface NodeImage {
+  /** JPEG data URL, ready to pass to generatePlate. */
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Node counterpart of the browser preprocessing: applies the EXIF orientation,
+ * rejects transparent images and re-encodes as JPEG. Accepts a file path or
+ * the encoded bytes.
+ */
+export const loadInputImage = async (source: string | Buffer): Promise<NodeImage> => {
+  const oriented = sharp(source).rotate();
+  let hasAlpha: boolean | undefined;
+  try {
+    ({ hasAlpha } = await oriented.metadata());
+  } catch (e: any) {
+    const name = typeof source === 'string' ? source : 'the upload';
+    throw new UnsupportedInputError(`Could not read ${name} as an image: ${e?.message || e}`);
+  }
+
+  if (hasAlpha) {
+    // Same sampling as the browser: the alpha of every fourth pixel.
+    const { data } = await oriented.clone().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    for (let i = 3; i < data.length; i += 16) {
+      if (data[i] < 250) {
+        throw new UnsupportedInputError("Transparent images are not supported due to rendering bugs. Please upload an image with a solid background.");
+      }
+    }
+  }
+
+  const { data, info } = await oriented
+    .clone()
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+  return { dataUrl: `data:image/jpeg;base64,${data.toString('base64')}`, width: info.width, height: info.height };
+};
+
+/**
+ * Scales a generated image back to the input size and encodes it as PNG. Like
+ * the browser, a drifted aspect ratio is scaled to cover and centred.
+ */
+export const toOriginalSizePng = async (dataUrl: string, width: number, height: number): Promise<Uint8Array> => {
+  const input = Buffer.from(dataUrl.split(',')[1] || '', 'base64');
+  const png = await sharp(input).resize(width, height, { fit: 'cover', position: 'centre' }).png().toBuffer();
+  return new Uint8Array(png.buffer, png.byteOffset, png.length);
+};
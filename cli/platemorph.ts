@@ -0,0 +1,254 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { generatePlate } from '../services/geminiService';
+import { createGeminiProvider, createMockProvider, getImageProvider, setImageProvider } from '../services/providers';
+import { isAbortError } from '../services/abort';
+import { MissingApiKeyError, PlateDetectedError, toErrorNotice, VerificationFailedError } from '../services/errors';
+import { embedProvenance } from '../services/exportService';
+import { findPlateFormat, formatPlateNumber, validatePlateNumber } from '../services/plateFormats';
+import { getSessionUsage } from '../services/usageService';
+import { expandInputs } from './inputs';
+import { loadInputImage, NodeImage, toOriginalSizePng } from './nodeImage';
+import { ErrorNotice, GenerationResult, UsageSummary, VerificationReport } from '../types';
+
+const USAGE = `Usage: platemorph <image|directory|glob>... --number <text> --country <name> [options]
+
+Options:
+  -n, --number <text>     Plate number to render
+  -c, --country <name>    Plate country or style, e.g. Germany
+  -m, --mode <mode>       add or replace (default: add)
+      --skip-detection    Skip the existing-plate check in add mode
+  -o, --out <dir>         Output directory (default: platemorph-output)
+      --provider <name>   gemini or mock (default: IMAGE_PROVIDER, else gemini)
+      --endpoint <url>    Gemini-compatible API endpoint, e.g. a local stand-in server
+  -h, --help              Show this help
+
+The Gemini API key is read from GEMINI_API_KEY or API_KEY.`;
+
+type CliMode = 'add' | 'replace';
+
+/** One input's outcome in report.json. */
+interface ReportItem {
+  input: string;
+  output: string | null;
+  status: 'verified' | 'unverified' | 'error' | 'cancelled';
+  attempts: number;
+  source: GenerationResult['source'] | null;
+  verification: VerificationReport | null;
+  attemptReports: VerificationReport[];
+  error: ErrorNotice | null;
+  durationMs: number;
+  /** Model calls made for this input, when it produced a result. */
+  usage: UsageSummary | null;
+}
+
+class UsageError extends Error {}
+
+const parseCommandLine = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      number: { type: 'string', short: 'n' },
+      country: { type: 'string', short: 'c' },
+      mode: { type: 'string', short: 'm', default: 'add' },
+      'skip-detection': { type: 'boolean', default: false },
+      out: { type: 'string', short: 'o', default: 'platemorph-output' },
+      provider: { type: 'string' },
+      endpoint: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) return null;
+  if (positionals.length === 0) throw new UsageError("No input images given.");
+  if (!values.number || !values.country) throw new UsageError("Both --number and --country are required.");
+  if (values.mode !== 'add' && values.mode !== 'replace') {
+    throw new UsageError(`Unknown mode "${values.mode}". Use add or replace.`);
+  }
+  return {
+    inputs: positionals,
+    number: values.number,
+    country: values.country,
+    mode: values.mode as CliMode,
+    skipDetection: values['skip-detection'],
+    out: values.out,
+    provider: values.provider,
+    endpoint: values.endpoint,
+  };
+};
+
+const configureProvider = (name: string, endpoint: string | undefined) => {
+  switch (name) {
+    case 'mock':
+      setImageProvider(createMockProvider());
+      break;
+    case 'gemini':
+      setImageProvider(createGeminiProvider(process.env.GEMINI_API_KEY || process.env.API_KEY, {
+        baseUrl: endpoint || process.env.GEMINI_BASE_URL || undefined,
+      }));
+      break;
+    default:
+      throw new UsageError(`Unknown provider "${name}". Use gemini or mock.`);
+  }
+};
+
+/** Picks `<name>-plate.png`, numbering it when several inputs share a base name. */
+const outputNameFor = (input: string, usedNames: Set<string>) => {
+  const base = path.basename(input, path.extname(input));
+  let name = `${base}-plate.png`;
+  for (let n = 2; usedNames.has(name); n++) {
+    name = `${base}-plate-${n}.png`;
+  }
+  usedNames.add(name);
+  return name;
+};
+
+const main = async (): Promise<number> => {
+  let args: ReturnType<typeof parseCommandLine>;
+  try {
+    args = parseCommandLine();
+  } catch (e: any) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    configureProvider(args.provider || process.env.IMAGE_PROVIDER || 'gemini', args.endpoint);
+  } catch (e) {
+    const notice = toErrorNotice(e);
+    const action = e instanceof MissingApiKeyError ? "Set GEMINI_API_KEY, or pass --provider mock to work offline." : notice.action;
+    console.error([notice.message, action].filter(Boolean).join(' '));
+    return 2;
+  }
+
+  const files = await expandInputs(args.inputs);
+  if (files.length === 0) {
+    console.error("No images matched the given inputs.");
+    return 2;
+  }
+
+  const plateFormat = findPlateFormat(args.country);
+  const plateNumber = plateFormat ? formatPlateNumber(args.number, plateFormat) : args.number.toUpperCase();
+  const formatWarning = plateFormat ? validatePlateNumber(plateNumber, plateFormat) : null;
+  if (formatWarning) {
+    console.error(`Warning: ${formatWarning}`);
+  }
+
+  const outDir = path.resolve(args.out || 'platemorph-output');
+  await mkdir(outDir, { recursive: true });
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error("\nCancelling...");
+    controller.abort();
+  });
+
+  const usedNames = new Set<string>(['report.json']);
+  const items: ReportItem[] = [];
+
+  for (const [index, file] of files.entries()) {
+    const label = `[${index + 1}/${files.length}] ${file}`;
+    const startedAt = Date.now();
+    const item: ReportItem = {
+      input: file,
+      output: null,
+      status: 'error',
+      attempts: 0,
+      source: null,
+      verification: null,
+      attemptReports: [],
+      error: null,
+      durationMs: 0,
+      usage: null,
+    };
+    items.push(item);
+
+    if (controller.signal.aborted) {
+      item.status = 'cancelled';
+      continue;
+    }
+
+    let result: GenerationResult | null = null;
+    let image: NodeImage | null = null;
+    try {
+      image = await loadInputImage(file);
+      result = await generatePlate(
+        image.dataUrl,
+        plateNumber,
+        args.country,
+        args.mode,
+        (status) => console.error(`${label}: ${status}`),
+        { skipDetection: args.skipDetection, signal: controller.signal }
+      );
+    } catch (err) {
+      if (isAbortError(err)) {
+        item.status = 'cancelled';
+      } else {
+        // Still write the best attempt so it can be judged by eye.
+        result = err instanceof VerificationFailedError ? err.result : null;
+        item.error = toErrorNotice(err);
+        if (err instanceof PlateDetectedError) {
+          item.error.action = "Use --mode replace, or --skip-detection to add a plate anyway.";
+        }
+      }
+    }
+
+    if (result && image) {
+      const name = outputNameFor(file, usedNames);
+      const png = await toOriginalSizePng(result.image, image.width, image.height);
+      const tagged = embedProvenance(png, 'png', {
+        plateNumber,
+        plateCountry: args.country,
+        mode: args.mode,
+        source: result.source,
+        createdAt: new Date(),
+      }, image.width, image.height);
+      await writeFile(path.join(outDir, name), tagged);
+
+      item.output = name;
+      item.status = item.error ? 'error' : result.verified ? 'verified' : 'unverified';
+      item.attempts = result.attempts;
+      item.source = result.source;
+      item.verification = result.verification;
+      item.attemptReports = result.attemptReports;
+      item.usage = result.usage ?? null;
+    }
+    item.durationMs = Date.now() - startedAt;
+
+    const summary = item.status === 'cancelled'
+      ? 'cancelled'
+      : item.error
+        ? `failed: ${item.error.message}`
+        : `${item.status} after ${item.attempts} attempt${item.attempts === 1 ? '' : 's'} -> ${item.output}`;
+    console.error(`${label}: ${summary}`);
+  }
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    provider: getImageProvider().name,
+    mode: args.mode,
+    plateNumber,
+    plateCountry: args.country,
+    usage: getSessionUsage(),
+    results: items,
+  };
+  await writeFile(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+
+  const counts = items.reduce<Record<string, number>>((acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }), {});
+  console.log(`${Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ')}. Report: ${path.join(outDir, 'report.json')}`);
+
+  if (controller.signal.aborted) return 130;
+  return items.some(item => item.status === 'error') ? 1 : 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((e) => {
+    console.error(e?.message || e);
+    process.exit(1);
+  });
@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ImageModelProvider, ModelUsage, ProviderCallOptions } from '../services/providers';
+
+type RecordedMethod = 'detectPlate' | 'detectVehicles' | 'editImage' | 'readPlateText';
+
+/** One model response, stored as `<key>.json` in the recordings directory. */
+interface Recording {
+  method: RecordedMethod;
+  response: unknown;
+  usage: ModelUsage | null;
+}
+
+/**
+ * Requests are keyed by their content: the method, the image, the prompt and
+ * the plate position. Identical requests, e.g. parallel variants, are numbered
+ * in the order they are made so each keeps its own response.
+ */
+const createKeyer = () => {
+  const seen = new Map<string, number>();
+  return (method: RecordedMethod, image: string, extra: unknown) => {
+    const hash = createHash('sha256').update(JSON.stringify([method, image, extra])).digest('hex').slice(0, 32);
+    const occurrence = (seen.get(hash) ?? 0) + 1;
+    seen.set(hash, occurrence);
+    return `${method}-${hash}-${occurrence}`;
+  };
+};
+
+/**
+ * Passes every call through to `inner` and saves its response, so the same
+ * run can later be replayed offline with createReplayProvider.
+ */
+export const createRecordingProvider = (inner: ImageModelProvider, dir: string): ImageModelProvider => {
+  const keyFor = createKeyer();
+
+  const record = async <O extends ProviderCallOptions, T>(
+    method: RecordedMethod,
+    key: string,
+    options: O | undefined,
+    call: (options: O) => Promise<T>
+  ): Promise<T> => {
+    let usage: ModelUsage | null = null;
+    const response = await call({
+      ...options,
+      onUsage: (reported: ModelUsage) => {
+        usage = reported;
+        options?.onUsage?.(reported);
+      },
+    } as O);
+    const recording: Recording = { method, response, usage };
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${key}.json`), JSON.stringify(recording));
+    return response;
+  };
+
+  return {
+    name: inner.name,
+    detectPlate: (image, options) =>
+      record('detectPlate', keyFor('detectPlate', image, options?.position ?? null), options, o => inner.detectPlate(image, o)),
+    detectVehicles: (image, options) =>
+      record('detectVehicles', keyFor('detectVehicles', image, null), options, o => inner.detectVehicles(image, o)),
+    editImage: (image, prompt, options) =>
+      record('editImage', keyFor('editImage', image, prompt), options, o => inner.editImage(image, prompt, o)),
+    readPlateText: (image, options) =>
+      record('readPlateText', keyFor('readPlateText', image, options?.position ?? null), options, o => inner.readPlateText(image, o)),
+  };
+};
+
+/**
+ * Answers from responses saved by createRecordingProvider, without a network.
+ * A request that was never recorded, e.g. because a prompt changed, fails with
+ * an error naming the method.
+ */
+export const createReplayProvider = (dir: string): ImageModelProvider => {
+  const keyFor = createKeyer();
+
+  const replay = async <T>(method: RecordedMethod, key: string, options: ProviderCallOptions | undefined): Promise<T> => {
+    let recording: Recording;
+    try {
+      recording = JSON.parse(await readFile(path.join(dir, `${key}.json`), 'utf8'));
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') throw e;
+      throw new Error(`No recorded ${method} response in ${dir} for this request. Record it first with --record.`);
+    }
+    if (recording.usage) options?.onUsage?.(recording.usage);
+    return recording.response as T;
+  };
+
+  return {
+    name: 'replay',
+    detectPlate: (image, options) => replay('detectPlate', keyFor('detectPlate', image, options?.position ?? null), options),
+    detectVehicles: (image, options) => replay('detectVehicles', keyFor('detectVehicles', image, null), options),
+    editImage: (image, prompt, options) => replay('editImage', keyFor('editImage', image, prompt), options),
+    readPlateText: (image, options) => replay('readPlateText', keyFor('readPlateText', image, options?.position ?? null), options),
+  };
+};
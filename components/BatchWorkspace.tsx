@@ -0,0 +1,337 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { generatePlate } from '../services/geminiService';
+import { applyPlateCsv, buildBatchZip, parsePlateCsv, runWithConcurrency } from '../services/batchService';
+import { findPlateFormat, formatPlateNumber } from '../services/plateFormats';
+import { saveGeneration } from '../services/historyStore';
+import { isAbortError } from '../services/abort';
+import { PlateDetectedError, toErrorNotice, VerificationFailedError } from '../services/errors';
+import Button from './Button';
+import { BatchJob, PlateMode, RedactionMethod } from '../types';
+
+const MAX_CONCURRENCY = 4;
+
+type BatchMode = Exclude<PlateMode, 'composite'>;
+
+const MODE_NAMES: Record<BatchMode, string> = {
+  add: 'Add Plates',
+  replace: 'Replace Plates',
+  redact: 'Redact Plates',
+};
+
+const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none";
+
+const BatchWorkspace: React.FC = () => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [mode, setMode] = useState<BatchMode>('replace');
+  const [redaction, setRedaction] = useState<RedactionMethod>('blur');
+  const [defaultCountry, setDefaultCountry] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [skipDetection, setSkipDetection] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Nothing would receive the results of a run that outlives the workspace.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+
+    const added = await Promise.all(files.map(async (file, index): Promise<BatchJob> => ({
+      id: `${Date.now()}-${index}-${file.name}`,
+      fileName: file.webkitRelativePath || file.name,
+      image: await readFileAsDataUrl(file),
+      plateNumber: '',
+      plateCountry: defaultCountry,
+      status: 'pending',
+      statusMessage: '',
+      mode: null,
+      result: null,
+      error: null,
+    })));
+
+    setJobs(prev => [...prev, ...added]);
+  };
+
+  const handleApplyCsv = () => {
+    setJobs(prev => applyPlateCsv(prev, parsePlateCsv(csvText)));
+  };
+
+  // Redaction needs no plate details, so every unfinished photo is ready.
+  // A kept unverified result carries an error and can be run again.
+  const isReady = (job: BatchJob) => (job.status !== 'done' || !!job.error) && (mode === 'redact' || (!!job.plateNumber && !!job.plateCountry));
+
+  const handleRun = async () => {
+    const queue = jobs.filter(isReady);
+    if (queue.length === 0) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    queue.forEach(job => updateJob(job.id, { status: 'pending', statusMessage: 'Queued', error: null }));
+
+    await runWithConcurrency(queue, concurrency, async (job: BatchJob) => {
+      if (controller.signal.aborted) {
+        updateJob(job.id, { status: 'pending', statusMessage: 'Cancelled' });
+        return;
+      }
+      updateJob(job.id, { status: 'running', statusMessage: 'Initializing...', mode, result: null });
+      try {
+        const result = await generatePlate(
+          job.image,
+          job.plateNumber,
+          job.plateCountry,
+          mode,
+          (status) => updateJob(job.id, { statusMessage: status }),
+          { skipDetection, redaction, signal: controller.signal }
+        );
+        updateJob(job.id, { status: 'done', statusMessage: 'Complete!', result });
+        saveGeneration({
+          originalImage: job.image,
+          plateNumber: job.plateNumber,
+          plateCountry: job.plateCountry,
+          mode,
+          plateRegion: null,
+          result,
+        }).catch((e) => console.warn("Could not save generation to history:", e));
+      } catch (err: any) {
+        if (isAbortError(err)) {
+          updateJob(job.id, { status: 'pending', statusMessage: 'Cancelled' });
+          return;
+        }
+        const message = err instanceof PlateDetectedError
+          ? "Existing plate detected. Use Replace mode or skip detection."
+          : toErrorNotice(err).message;
+        // The best attempt is already paid for; keep it, flagged unverified, for review and the ZIP.
+        // Like a partial result in the single-image flow, it is not saved to history, which only
+        // holds runs that finished; the row can be run again or exported from here instead.
+        if (err instanceof VerificationFailedError) {
+          updateJob(job.id, { status: 'done', statusMessage: '', result: err.result, error: message });
+          return;
+        }
+        updateJob(job.id, { status: 'error', statusMessage: '', error: message });
+      }
+    });
+
+    abortControllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownloadZip = () => {
+    const blob = buildBatchZip(jobs);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `platemorph-batch-${Date.now()}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const readyCount = jobs.filter(isReady).length;
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* Left Sidebar: Batch Controls */}
+      <div className="lg:col-span-4 space-y-6">
+        <div className="bg-slate-900/90 backdrop-blur-sm p-6 rounded-2xl border border-slate-800 shadow-xl space-y-4">
+          <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg border border-slate-700/50">
+            {(Object.keys(MODE_NAMES) as BatchMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                disabled={isRunning}
+                onClick={() => setMode(option)}
+                className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${mode === option ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+              >
+                {MODE_NAMES[option]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex space-x-2">
+            <Button type="button" variant="secondary" className="flex-1 py-2 text-sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+              Add Photos
+            </Button>
+            <Button type="button" variant="secondary" className="flex-1 py-2 text-sm" onClick={() => folderInputRef.current?.click()} disabled={isRunning}>
+              Add Folder
+            </Button>
+            <input type="file" ref={fileInputRef} onChange={handleFiles} accept="image/*" multiple className="hidden" />
+            <input type="file" ref={folderInputRef} onChange={handleFiles} multiple className="hidden" {...{ webkitdirectory: '' }} />
+          </div>
+
+          {mode === 'redact' ? (
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-slate-400">Treatment</label>
+              <select
+                value={redaction}
+                onChange={(e) => setRedaction(e.target.value as RedactionMethod)}
+                disabled={isRunning}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1 text-sm text-white outline-none"
+              >
+                <option value="blur">Blur</option>
+                <option value="pixelate">Pixelate</option>
+                <option value="remove">Remove with AI</option>
+              </select>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Default Country / Style</label>
+                <input
+                  type="text"
+                  placeholder="Used for new photos, e.g. Germany"
+                  value={defaultCountry}
+                  onChange={(e) => setDefaultCountry(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-400 mb-1">Paste CSV</label>
+                <textarea
+                  rows={4}
+                  placeholder={"filename,number,country\ncar1.jpg,AB 123,Germany"}
+                  value={csvText}
+                  onChange={(e) => setCsvText(e.target.value)}
+                  className={`${inputClass} font-mono`}
+                />
+                <Button type="button" variant="secondary" className="w-full mt-2 py-2 text-sm" onClick={handleApplyCsv} disabled={!csvText.trim() || jobs.length === 0 || isRunning}>
+                  Apply to Rows
+                </Button>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-slate-400">Parallel jobs</label>
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1 text-sm text-white outline-none"
+            >
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+
+          {mode === 'add' && (
+            <label className="flex items-center text-sm text-slate-400">
+              <input type="checkbox" checked={skipDetection} onChange={(e) => setSkipDetection(e.target.checked)} className="mr-2" />
+              Skip existing-plate detection
+            </label>
+          )}
+
+          <div className="pt-4 border-t border-slate-800 space-y-2">
+            {isRunning ? (
+              <Button type="button" variant="secondary" className="w-full" onClick={handleStop}>
+                Stop
+              </Button>
+            ) : (
+              <Button type="button" className="w-full" onClick={handleRun} disabled={readyCount === 0}>
+                {`Run ${readyCount} Job${readyCount === 1 ? '' : 's'}`}
+              </Button>
+            )}
+            <Button type="button" variant="secondary" className="w-full" onClick={handleDownloadZip} disabled={doneCount === 0 || isRunning}>
+              Download ZIP ({doneCount})
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Right Area: Job Rows */}
+      <div className="lg:col-span-8 space-y-3">
+        {jobs.length === 0 ? (
+          <div className="w-full h-[400px] bg-slate-900/50 backdrop-blur-sm border-2 border-dashed border-slate-800 rounded-xl flex flex-col items-center justify-center text-slate-600">
+            <p>Add photos or a folder to start a batch</p>
+          </div>
+        ) : (
+          jobs.map(job => (
+            <div key={job.id} className="bg-slate-900/90 backdrop-blur-sm p-3 rounded-xl border border-slate-800 flex items-center space-x-4">
+              <img src={job.result?.image || job.image} alt={job.fileName} className="w-24 h-16 object-cover rounded-lg bg-slate-800 flex-shrink-0" />
+              <div className="flex-grow min-w-0 space-y-2">
+                <p className="text-xs text-slate-400 truncate">{job.fileName}</p>
+                {mode !== 'redact' && (
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      placeholder="Plate number"
+                      value={job.plateNumber}
+                      disabled={isRunning}
+                      onChange={(e) => {
+                        const format = findPlateFormat(job.plateCountry);
+                        updateJob(job.id, { plateNumber: format ? formatPlateNumber(e.target.value, format) : e.target.value.toUpperCase() });
+                      }}
+                      className={`${inputClass} tracking-wider uppercase`}
+                    />
+                    <input
+                      type="text"
+                      placeholder="Country"
+                      value={job.plateCountry}
+                      disabled={isRunning}
+                      onChange={(e) => updateJob(job.id, { plateCountry: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="w-40 flex-shrink-0 text-right text-xs">
+                {job.status === 'running' && <p className="text-indigo-400">{job.statusMessage}</p>}
+                {job.status === 'pending' && <p className="text-slate-500">{job.statusMessage || 'Waiting'}</p>}
+                {job.status === 'error' && <p className="text-red-400">{job.error}</p>}
+                {job.status === 'done' && job.result && (
+                  <p className={job.result.verified ? 'text-emerald-400' : 'text-amber-400'}>
+                    {job.result.redactedAreas ? (
+                      `${job.result.redactedAreas.length} plate${job.result.redactedAreas.length === 1 ? '' : 's'} redacted${job.result.verified ? '' : ' · check result'}`
+                    ) : (
+                      <>
+                        {job.result.verified ? 'Verified' : 'Unverified'} · {job.result.attempts} attempt{job.result.attempts === 1 ? '' : 's'}
+                        {job.result.verification && !job.result.verified && ` · ${Math.round(job.result.verification.similarity * 100)}%`}
+                      </>
+                    )}
+                  </p>
+                )}
+                {!isRunning && (
+                  <button
+                    type="button"
+                    onClick={() => setJobs(prev => prev.filter(other => other.id !== job.id))}
+                    className="mt-1 text-slate-500 hover:text-slate-300"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchWorkspace;
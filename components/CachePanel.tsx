@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CACHE_SIZE_OPTIONS_MB,
+  CacheSettings,
+  CacheStats,
+  clearCache,
+  getCacheSettings,
+  getCacheStats,
+  setCacheSettings,
+} from '../services/resultCache';
+
+interface CachePanelProps {
+  /** Changes whenever a run finishes, so the stats are reloaded. */
+  refreshKey?: unknown;
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Size and contents of the result cache, with its on/off switch, size limit and a clear button.
+ */
+const CachePanel: React.FC<CachePanelProps> = ({ refreshKey }) => {
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStats = () => {
+    getCacheStats()
+      .then(setStats)
+      .catch((e) => console.warn("Could not read result cache stats:", e));
+  };
+
+  useEffect(loadStats, [refreshKey]);
+
+  const detections = stats ? stats.byKind['plate-detection'] + stats.byKind['vehicle-detection'] : 0;
+
+  const handleSettingsChange = async (next: CacheSettings) => {
+    setSettings(next);
+    await setCacheSettings(next).catch((e) => console.warn("Could not apply cache settings:", e));
+    loadStats();
+  };
+
+  const handleClear = async () => {
+    setBusy(true);
+    try {
+      await clearCache();
+    } catch (e) {
+      console.warn("Could not clear the result cache:", e);
+    } finally {
+      setBusy(false);
+      loadStats();
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-6 rounded-2xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Result Cache</h3>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={busy || !stats || stats.entries === 0}
+          className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {stats && (
+        <p className="text-xs text-slate-500">
+          {stats.byKind.generation} result{stats.byKind.generation === 1 ? '' : 's'} and {detections} detection{detections === 1 ? '' : 's'} · {formatMb(stats.bytes)} of {settings.maxSizeMb} MB
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center text-sm text-slate-400">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => handleSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="mr-2"
+          />
+          Reuse results for repeat runs
+        </label>
+        <select
+          value={settings.maxSizeMb}
+          onChange={(e) => handleSettingsChange({ ...settings, maxSizeMb: Number(e.target.value) })}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white outline-none"
+        >
+          {CACHE_SIZE_OPTIONS_MB.map(size => (
+            <option key={size} value={size}>{size} MB</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import { GenerationCandidate } from '../types';
+
+interface CandidateGridProps {
+  /** Best first. */
+  candidates: GenerationCandidate[];
+  originalImage: string;
+  /** Image currently kept as the result. */
+  selectedImage: string | null;
+  onKeep: (candidate: GenerationCandidate) => void;
+  onDownload: (candidate: GenerationCandidate) => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeScore = (candidate: GenerationCandidate) => {
+  const { verification } = candidate;
+  if (verification.passed) return 'Passed';
+  if (verification.error) return 'OCR failed';
+  if (verification.distance === 0 && verification.change && !verification.change.passed) return 'Image changed';
+  return `${percent(verification.similarity)} match`;
+};
+
+/**
+ * Ranked variants from one run. Any of them can be kept as the result,
+ * downloaded, or opened full-size beside the original.
+ */
+const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, originalImage, selectedImage, onKeep, onDownload }) => {
+  const [viewing, setViewing] = useState<number | null>(null);
+  const viewed = viewing === null ? null : candidates[viewing];
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Variants</h3>
+        <span className="text-xs text-slate-500">Ranked by verification score</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {candidates.map((candidate, index) => {
+          const kept = candidate.image === selectedImage;
+          return (
+            <div
+              key={index}
+              className={`rounded-lg border overflow-hidden ${kept ? 'border-indigo-500' : 'border-slate-800'}`}
+            >
+              <button type="button" onClick={() => setViewing(index)} className="relative block w-full bg-slate-950">
+                <img src={candidate.image} alt={`Variant ${index + 1}`} className="w-full h-24 object-cover" />
+                <span className="absolute top-1 left-1 bg-slate-900/90 text-white text-xs px-1.5 py-0.5 rounded font-semibold">#{index + 1}</span>
+              </button>
+              <div className="p-2 space-y-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className={candidate.verification.passed ? 'text-emerald-400' : 'text-amber-400'}>{describeScore(candidate)}</span>
+                  {candidate.verification.change && (
+                    <span className="text-slate-500" title="Share of the image outside the plate that changed">
+                      Δ {percent(candidate.verification.change.score)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => onKeep(candidate)}
+                    disabled={kept}
+                    className="flex-1 text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:bg-indigo-600 disabled:text-white"
+                  >
+                    {kept ? 'Kept' : 'Keep'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDownload(candidate)}
+                    className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700"
+                    title="Download this variant"
+                  >
+                    ↓
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {viewed && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center px-4 bg-black/80 backdrop-blur-sm"
+          onClick={() => setViewing(null)}
+        >
+          <div
+            className="bg-slate-900 border border-slate-700 rounded-2xl p-4 w-full max-w-6xl shadow-2xl space-y-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-bold text-white">Variant #{viewing! + 1}</h3>
+              <span className={`text-xs font-semibold px-2 py-1 rounded ${viewed.verification.passed ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>
+                {describeScore(viewed)} · read "{viewed.verification.ocrText || '—'}"
+              </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-slate-500 mb-1">Original</p>
+                <img src={originalImage} alt="Original" className="w-full max-h-[70vh] object-contain bg-slate-950 rounded-lg" />
+              </div>
+              <div>
+                <p className="text-xs text-slate-500 mb-1">Variant</p>
+                <img src={viewed.image} alt={`Variant ${viewing! + 1}`} className="w-full max-h-[70vh] object-contain bg-slate-950 rounded-lg" />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="secondary" onClick={() => setViewing(null)} className="py-2 px-4 text-sm">Close</Button>
+              <Button variant="secondary" onClick={() => onDownload(viewed)} className="py-2 px-4 text-sm">Download</Button>
+              <Button
+                onClick={() => {
+                  onKeep(viewed);
+                  setViewing(null);
+                }}
+                disabled={viewed.image === selectedImage}
+                className="py-2 px-4 text-sm"
+              >
+                {viewed.image === selectedImage ? 'Kept' : 'Keep This One'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateGrid;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CompositeOptions } from '../types';
+
+interface CompositeControlsProps {
+  options: CompositeOptions;
+  onChange: (options: CompositeOptions) => void;
+}
+
+const CompositeControls: React.FC<CompositeControlsProps> = ({ options, onChange }) => {
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex justify-between text-sm font-medium text-slate-400 mb-1">
+          <label>Blur</label>
+          <span className="text-slate-500">{options.blur}px</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={4}
+          step={1}
+          value={options.blur}
+          onChange={(e) => onChange({ ...options, blur: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </div>
+      <div>
+        <div className="flex justify-between text-sm font-medium text-slate-400 mb-1">
+          <label>Noise</label>
+          <span className="text-slate-500">{options.noise}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={30}
+          step={1}
+          value={options.noise}
+          onChange={(e) => onChange({ ...options, noise: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </div>
+      <label className="flex items-center text-sm text-slate-400">
+        <input
+          type="checkbox"
+          checked={options.matchLighting}
+          onChange={(e) => onChange({ ...options, matchLighting: e.target.checked })}
+          className="mr-2"
+        />
+        Match lighting of the plate area
+      </label>
+    </div>
+  );
+};
+
+export default CompositeControls;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { findPlateFormat, searchPlateFormats } from '../services/plateFormats';
+
+interface CountryPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+const MAX_RESULTS = 40;
+
+/**
+ * Searchable picker over the plate format registry. Text that matches no
+ * entry is kept as a custom style, without format validation.
+ */
+const CountryPicker: React.FC<CountryPickerProps> = ({ value, onChange, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const results = searchPlateFormats(value).slice(0, MAX_RESULTS);
+  const selected = findPlateFormat(value);
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={isOpen}
+        placeholder="Search e.g. Germany, California, Japan"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on an option lands before the list unmounts.
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className={className}
+      />
+      {isOpen && results.length > 0 && (
+        <ul role="listbox" className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-slate-800 border border-slate-700 rounded-lg shadow-xl">
+          {results.map(format => (
+            <li
+              key={format.id}
+              role="option"
+              aria-selected={selected?.id === format.id}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onChange(format.name);
+                setIsOpen(false);
+              }}
+              className={`px-4 py-2 text-sm cursor-pointer flex justify-between ${selected?.id === format.id ? 'bg-indigo-600 text-white' : 'text-slate-200 hover:bg-slate-700'}`}
+            >
+              <span>{format.name}</span>
+              <span className="text-xs text-slate-400 font-mono">{format.example}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {value && !selected && (
+        <p className="text-xs text-slate-500 mt-1">Custom style: not in the format list, so the number is not validated.</p>
+      )}
+    </div>
+  );
+};
+
+export default CountryPicker;
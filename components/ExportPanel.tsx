@@ -0,0 +1,80 @@
+import React from 'react';
+import { ExportFormat, ExportSettings } from '../types';
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  /** File name the current settings produce, shown as a preview. */
+  fileName: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ settings, onChange, fileName }) => {
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Export</h3>
+        <div className="flex space-x-1 bg-slate-800 p-1 rounded-lg border border-slate-700/50">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onChange({ ...settings, format })}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${settings.format === format ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700/50'}`}
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.format !== 'png' && (
+        <div>
+          <div className="flex justify-between text-sm font-medium text-slate-400 mb-1">
+            <label>Quality</label>
+            <span className="text-slate-500">{Math.round(settings.quality * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={settings.quality}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-slate-400 mb-1">File name</label>
+        <input
+          type="text"
+          value={settings.fileNamePattern}
+          onChange={(e) => onChange({ ...settings, fileNamePattern: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white font-mono focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        <p className="text-xs text-slate-500 mt-1 truncate">
+          Use {'{plate}'}, {'{country}'}, {'{mode}'}, {'{date}'}, {'{time}'} · saves as <span className="font-mono text-slate-400">{fileName}</span>
+        </p>
+      </div>
+
+      <label className="flex items-center text-sm text-slate-400">
+        <input
+          type="checkbox"
+          checked={settings.embedMetadata}
+          onChange={(e) => onChange({ ...settings, embedMetadata: e.target.checked })}
+          className="mr-2"
+        />
+        Embed provenance metadata (AI-edited, plate, country, date)
+      </label>
+    </div>
+  );
+};
+
+export default ExportPanel;
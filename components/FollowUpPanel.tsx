@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import { ResultVersion } from '../types';
+
+interface FollowUpPanelProps {
+  versions: ResultVersion[];
+  versionIndex: number;
+  onSelect: (index: number) => void;
+  onSubmit: (instruction: string) => void;
+  onCancel: () => void;
+  isWorking: boolean;
+  statusMessage?: string;
+}
+
+const SUGGESTIONS = ['Move the plate slightly lower', 'Match the shadow better', 'Make it dirtier'];
+
+/**
+ * Sends follow-up instructions for the current result and lists every version
+ * as a timeline that can be stepped through with undo and redo.
+ */
+const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ versions, versionIndex, onSelect, onSubmit, onCancel, isWorking, statusMessage }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isWorking) return;
+    onSubmit(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Follow-up Edits</h3>
+        <div className="flex space-x-1">
+          <button
+            type="button"
+            onClick={() => onSelect(versionIndex - 1)}
+            disabled={isWorking || versionIndex <= 0}
+            className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(versionIndex + 1)}
+            disabled={isWorking || versionIndex >= versions.length - 1}
+            className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700 disabled:opacity-50"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          placeholder="e.g., move the plate slightly lower"
+          value={instruction}
+          disabled={isWorking}
+          maxLength={500}
+          onChange={(e) => setInstruction(e.target.value)}
+          className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        {isWorking ? (
+          <Button type="button" variant="secondary" onClick={onCancel} className="py-2 px-4 text-sm">Cancel</Button>
+        ) : (
+          <Button type="submit" disabled={!instruction.trim()} className="py-2 px-4 text-sm">Apply</Button>
+        )}
+      </form>
+
+      {isWorking ? (
+        <p className="text-xs text-indigo-400">{statusMessage || 'Processing...'}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => setInstruction(suggestion)}
+              className="text-xs px-2 py-1 rounded-full border border-slate-700 text-slate-400 hover:text-slate-200 hover:border-slate-500"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {versions.length > 1 && (
+        <div className="flex space-x-2 overflow-x-auto pb-1">
+          {versions.map((version, index) => (
+            <button
+              key={version.id}
+              type="button"
+              onClick={() => onSelect(index)}
+              disabled={isWorking}
+              title={version.instruction || 'Original result'}
+              className={`relative flex-shrink-0 w-24 rounded-lg overflow-hidden border-2 disabled:cursor-not-allowed ${index === versionIndex ? 'border-indigo-500' : 'border-slate-800 hover:border-slate-600'} ${index > versionIndex ? 'opacity-50' : ''}`}
+            >
+              <img src={version.result.image} alt={`Version ${index + 1}`} className="w-full h-16 object-cover bg-slate-950" />
+              <span className="absolute top-1 left-1 bg-slate-900/90 text-white text-[10px] px-1 rounded font-semibold">v{index + 1}</span>
+              <span
+                className={`absolute top-1 right-1 w-2 h-2 rounded-full ${version.result.verified ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                title={version.result.verified ? 'Plate verified' : 'Plate not verified'}
+              />
+              <p className="px-1 py-0.5 text-[10px] text-slate-400 truncate text-left">{version.instruction || 'Original'}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FollowUpPanel;
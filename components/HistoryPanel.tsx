@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { deleteHistoryEntry, filterHistory, getHistoryPayload, listHistory } from '../services/historyStore';
+import { HistoryEntry, HistoryPayload } from '../types';
+
+interface HistoryPanelProps {
+  onOpen: (entry: HistoryEntry, payload: HistoryPayload) => void;
+  onRegenerate: (entry: HistoryEntry, payload: HistoryPayload) => void;
+}
+
+const MODE_NAMES: Record<HistoryEntry['mode'], string> = {
+  add: 'Add',
+  replace: 'Replace',
+  composite: 'Composite',
+  redact: 'Redact',
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpen, onRegenerate }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch((e) => setError(e.message || "Could not load history."));
+  }, []);
+
+  const withPayload = async (entry: HistoryEntry, action: (payload: HistoryPayload) => void) => {
+    const payload = await getHistoryPayload(entry.id);
+    if (!payload) {
+      setError("The images for this entry are no longer stored.");
+      return;
+    }
+    action(payload);
+  };
+
+  const handleDownload = (entry: HistoryEntry) => withPayload(entry, (payload) => {
+    const link = document.createElement('a');
+    link.href = payload.result.image;
+    link.download = `platemorph-${entry.createdAt}.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  });
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    await deleteHistoryEntry(entry.id);
+    setEntries(prev => prev.filter(other => other.id !== entry.id));
+  };
+
+  const visible = filterHistory(entries, query);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <input
+          type="search"
+          placeholder="Search by plate number, country or mode"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none"
+        />
+        <p className="text-xs text-slate-500 whitespace-nowrap">{entries.length} saved</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl text-sm">{error}</div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="w-full h-[300px] bg-slate-900/50 backdrop-blur-sm border-2 border-dashed border-slate-800 rounded-xl flex items-center justify-center text-slate-600">
+          <p>{entries.length === 0 ? 'Finished generations will appear here' : 'No entries match your search'}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visible.map(entry => (
+            <div key={entry.id} className="bg-slate-900/90 backdrop-blur-sm rounded-xl border border-slate-800 overflow-hidden">
+              <div className="relative">
+                <img src={entry.resultThumbnail} alt={entry.plateNumber || 'Redacted'} className="w-full h-40 object-cover bg-slate-800" />
+                <img src={entry.originalThumbnail} alt="Original" className="absolute bottom-2 left-2 w-16 h-12 object-cover rounded border border-slate-700" />
+                <span className={`absolute top-2 right-2 text-[10px] font-semibold px-2 py-0.5 rounded ${entry.verified ? 'bg-emerald-600 text-white' : 'bg-amber-600 text-white'}`}>
+                  {entry.verified ? 'Verified' : entry.similarity !== null ? `${Math.round(entry.similarity * 100)}% match` : 'Unverified'}
+                </span>
+              </div>
+              <div className="p-3 space-y-2">
+                <div className="flex items-baseline justify-between">
+                  <p className="font-mono tracking-wider text-white">{entry.mode === 'redact' ? 'Plates redacted' : entry.plateNumber}</p>
+                  <p className="text-xs text-slate-500">{MODE_NAMES[entry.mode]}</p>
+                </div>
+                <p className="text-xs text-slate-400 truncate">{entry.plateCountry && `${entry.plateCountry} · `}{new Date(entry.createdAt).toLocaleString()}</p>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button type="button" onClick={() => withPayload(entry, (payload) => onOpen(entry, payload))} className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700">Open</button>
+                  <button type="button" onClick={() => handleDownload(entry)} className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-200 hover:bg-slate-700">Download</button>
+                  <button type="button" onClick={() => withPayload(entry, (payload) => onRegenerate(entry, payload))} className="text-xs px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-500">Regenerate</button>
+                  <button type="button" onClick={() => handleDelete(entry)} className="text-xs px-2 py-1 rounded text-red-400 hover:bg-red-500/10 ml-auto">Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
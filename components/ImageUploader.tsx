@@ -1,87 +1,312 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import PlateRegionEditor, { DEFAULT_PLATE_REGION } from './PlateRegionEditor';
+import { ACCEPTED_IMAGE_TYPES, ImageInput, loadImageFromUrl, loadImageInput } from '../services/imageInput';
+import { PlateQuad } from '../types';
 
 interface ImageUploaderProps {
   onImageSelect: (base64: string) => void;
+  /** Called with an UnsupportedInputError when a file, paste or URL is rejected. */
+  onError?: (error: unknown) => void;
   currentImage: string | null;
   className?: string;
   compact?: boolean;
   label?: string;
+  region?: PlateQuad | null;
+  onRegionChange?: (region: PlateQuad | null) => void;
+  /** Layer drawn over the image. Its clicks take priority over the hover controls. */
+  overlay?: React.ReactNode;
 }
 
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const looksLikeUrl = (text: string) => /^(https?:\/\/|data:image\/)\S+$/i.test(text.trim());
+
+/**
+ * Image input by click, drag-and-drop, clipboard paste, web address or, on
+ * touch devices, the camera. Every input is checked and downscaled by
+ * loadImageInput before it is passed on.
+ */
 const ImageUploader: React.FC<ImageUploaderProps> = ({ 
   onImageSelect, 
+  onError,
   currentImage, 
   className = '',
   compact = false,
-  label = "Upload Image"
+  label = "Upload Image",
+  region = null,
+  onRegionChange,
+  overlay
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [isMarking, setIsMarking] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showUrlInput, setShowUrlInput] = useState(false);
+  const [url, setUrl] = useState('');
+  const [resizeNote, setResizeNote] = useState<string | null>(null);
+  const canCapture = typeof window !== 'undefined' && !!window.matchMedia?.('(pointer: coarse)').matches;
+
+  const acceptInput = async (load: () => Promise<ImageInput>) => {
+    setIsLoading(true);
+    try {
+      const input = await load();
+      setIsMarking(false);
+      setShowUrlInput(false);
+      setUrl('');
+      setResizeNote(input.downscaled ? `Resized from ${input.sourceWidth}×${input.sourceHeight}` : null);
+      onImageSelect(input.dataUrl);
+    } catch (e) {
+      onError?.(e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      acceptInput(() => loadImageInput(file));
+    }
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (url.trim()) {
+      acceptInput(() => loadImageFromUrl(url));
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (!isMarking) setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isMarking || isLoading) return;
+    const file = e.dataTransfer.files?.[0];
+    // Images dragged from another page arrive as a link rather than a file.
+    const link = e.dataTransfer.getData('text/uri-list').split('\n').find(line => line && !line.startsWith('#'))
+      || e.dataTransfer.getData('text/plain');
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        onImageSelect(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      acceptInput(() => loadImageInput(file));
+    } else if (link && looksLikeUrl(link)) {
+      acceptInput(() => loadImageFromUrl(link));
     }
   };
 
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTyping(e.target) || isMarking || isLoading) return;
+      const file = Array.from(e.clipboardData?.files || []).find(item => item.type.startsWith('image/'));
+      const text = e.clipboardData?.getData('text/plain') || '';
+      if (file) {
+        e.preventDefault();
+        acceptInput(() => loadImageInput(file));
+      } else if (looksLikeUrl(text)) {
+        e.preventDefault();
+        acceptInput(() => loadImageFromUrl(text));
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  });
+
   const triggerInput = () => {
     fileInputRef.current?.click();
   };
 
+  const startMarking = () => {
+    if (!region) {
+      onRegionChange?.(DEFAULT_PLATE_REGION);
+    }
+    setIsMarking(true);
+  };
+
+  const clearRegion = () => {
+    onRegionChange?.(null);
+    setIsMarking(false);
+  };
+
+  // Kept out of the drop zone's click handler, which would otherwise open the picker a second time.
+  const fileInputs = (
+    <span className="hidden" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept={ACCEPTED_IMAGE_TYPES}
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={cameraInputRef}
+        onChange={handleFileChange}
+        accept={ACCEPTED_IMAGE_TYPES}
+        capture="environment"
+        className="hidden"
+      />
+    </span>
+  );
+
+  const dropHandlers = {
+    onDragOver: handleDragOver,
+    onDragLeave: () => setIsDragging(false),
+    onDrop: handleDrop,
+  };
+
   if (currentImage) {
     return (
-      <div className={`relative group w-full bg-slate-800 rounded-xl overflow-hidden border border-slate-700 shadow-xl ${className} ${compact ? 'h-48' : 'h-full min-h-[300px]'}`}>
-        <img 
-          src={currentImage} 
-          alt="Uploaded" 
-          className="w-full h-full object-contain bg-slate-900/50"
+      <div
+        {...dropHandlers}
+        className={`relative group w-full bg-slate-800 rounded-xl overflow-hidden border shadow-xl ${isDragging ? 'border-indigo-500' : 'border-slate-700'} ${className} ${compact ? 'h-48' : 'h-full min-h-[300px]'}`}
+      >
+        <PlateRegionEditor
+          image={currentImage}
+          region={region}
+          onRegionChange={(next) => onRegionChange?.(next)}
+          editable={isMarking}
+          className="bg-slate-900/50"
+          overlay={isMarking ? undefined : overlay}
         />
-        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-          <button 
-            type="button"
-            onClick={triggerInput}
-            className={`bg-white text-slate-900 rounded-lg font-medium transform hover:scale-105 transition-transform ${compact ? 'px-3 py-1 text-sm' : 'px-4 py-2'}`}
+        {!isMarking && (
+          <div className={overlay
+            ? 'absolute top-2 right-2 flex space-x-2'
+            : 'absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center space-x-3'}
           >
-            Change
-          </button>
-        </div>
-        <input 
-          type="file" 
-          ref={fileInputRef}
-          onChange={handleFileChange}
-          accept="image/*"
-          className="hidden"
-        />
+            <button 
+              type="button"
+              onClick={triggerInput}
+              className={`bg-white text-slate-900 rounded-lg font-medium transform hover:scale-105 transition-transform ${compact ? 'px-3 py-1 text-sm' : 'px-4 py-2'}`}
+            >
+              Change
+            </button>
+            {canCapture && (
+              <button
+                type="button"
+                onClick={() => cameraInputRef.current?.click()}
+                className={`bg-white text-slate-900 rounded-lg font-medium transform hover:scale-105 transition-transform ${compact ? 'px-3 py-1 text-sm' : 'px-4 py-2'}`}
+              >
+                Camera
+              </button>
+            )}
+            {onRegionChange && (
+              <button 
+                type="button"
+                onClick={startMarking}
+                className={`bg-indigo-600 text-white rounded-lg font-medium transform hover:scale-105 transition-transform ${compact ? 'px-3 py-1 text-sm' : 'px-4 py-2'}`}
+              >
+                {region ? 'Edit Plate Area' : 'Mark Plate Area'}
+              </button>
+            )}
+          </div>
+        )}
+        {isMarking && (
+          <div className="absolute bottom-2 right-2 flex space-x-2">
+            <button
+              type="button"
+              onClick={clearRegion}
+              className="bg-slate-700 text-slate-200 text-xs px-3 py-1 rounded-md hover:bg-slate-600"
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsMarking(false)}
+              className="bg-indigo-600 text-white text-xs px-3 py-1 rounded-md hover:bg-indigo-500"
+            >
+              Done
+            </button>
+          </div>
+        )}
+        {fileInputs}
          <div className="absolute top-2 left-2 bg-black/70 text-white text-[10px] px-2 py-0.5 rounded backdrop-blur-md uppercase tracking-wide">
-          {label}
+          {isMarking ? 'Drag the corners onto the plate area' : label}
         </div>
+        {resizeNote && !isMarking && (
+          <div className="absolute bottom-2 left-2 bg-black/70 text-slate-300 text-[10px] px-2 py-0.5 rounded backdrop-blur-md">
+            {resizeNote}
+          </div>
+        )}
+        {(isDragging || isLoading) && (
+          <div className="absolute inset-0 bg-slate-950/80 flex items-center justify-center text-indigo-300 font-medium pointer-events-none">
+            {isLoading ? 'Reading image...' : 'Drop to replace the image'}
+          </div>
+        )}
       </div>
     );
   }
 
   return (
     <div 
-      onClick={triggerInput}
-      className={`border-2 border-dashed border-slate-700 rounded-xl hover:border-indigo-500 hover:bg-slate-800/50 transition-all cursor-pointer flex flex-col items-center justify-center group bg-slate-800/20 ${className} ${compact ? 'h-48' : 'w-full h-[400px]'}`}
+      {...dropHandlers}
+      onClick={() => !isLoading && !showUrlInput && triggerInput()}
+      className={`border-2 border-dashed rounded-xl hover:border-indigo-500 hover:bg-slate-800/50 transition-all cursor-pointer flex flex-col items-center justify-center group bg-slate-800/20 ${isDragging ? 'border-indigo-500 bg-slate-800/50' : 'border-slate-700'} ${className} ${compact ? 'h-48' : 'w-full h-[400px]'}`}
     >
       <div className={`bg-slate-800 rounded-full flex items-center justify-center group-hover:scale-110 transition-transform duration-200 border border-slate-700 group-hover:border-indigo-500/50 shadow-lg ${compact ? 'w-10 h-10 mb-2' : 'w-16 h-16 mb-4'}`}>
         <svg xmlns="http://www.w3.org/2000/svg" className={`text-slate-400 group-hover:text-indigo-400 ${compact ? 'h-5 w-5' : 'h-8 w-8'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
         </svg>
       </div>
-      <p className={`font-medium text-slate-300 group-hover:text-white ${compact ? 'text-sm' : 'text-lg'}`}>{label}</p>
-      {!compact && <p className="text-sm text-slate-500 mt-2">Click to browse or select a file</p>}
-      <input 
-        type="file" 
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        accept="image/*"
-        className="hidden"
-      />
+      <p className={`font-medium text-slate-300 group-hover:text-white ${compact ? 'text-sm' : 'text-lg'}`}>{isLoading ? 'Reading image...' : label}</p>
+      {!compact && <p className="text-sm text-slate-500 mt-2">Click to browse, drop a file here or paste an image</p>}
+      {!compact && (showUrlInput ? (
+        <form onSubmit={handleUrlSubmit} onClick={(e) => e.stopPropagation()} className="flex space-x-2 mt-4 w-full max-w-md px-4">
+          <input
+            type="url"
+            placeholder="https://example.com/car.jpg"
+            value={url}
+            autoFocus
+            disabled={isLoading}
+            onChange={(e) => setUrl(e.target.value)}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !url.trim()}
+            className="bg-indigo-600 text-white text-sm px-3 py-2 rounded-lg hover:bg-indigo-500 disabled:opacity-50"
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowUrlInput(false)}
+            className="text-slate-400 text-sm px-2 hover:text-slate-200"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div className="flex space-x-3 mt-4">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowUrlInput(true);
+            }}
+            className="text-sm text-indigo-400 hover:text-indigo-300"
+          >
+            Import from URL
+          </button>
+          {canCapture && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                cameraInputRef.current?.click();
+              }}
+              className="text-sm text-indigo-400 hover:text-indigo-300"
+            >
+              Take Photo
+            </button>
+          )}
+        </div>
+      ))}
+      {fileInputs}
     </div>
   );
 };
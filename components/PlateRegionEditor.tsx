@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { PlateQuad } from '../types';
+
+interface PlateRegionEditorProps {
+  image: string;
+  region: PlateQuad | null;
+  onRegionChange: (region: PlateQuad) => void;
+  editable: boolean;
+  className?: string;
+  /** Extra layer positioned over the image, e.g. vehicle detections. */
+  overlay?: React.ReactNode;
+}
+
+export const DEFAULT_PLATE_REGION: PlateQuad = [
+  { x: 0.4, y: 0.7 },
+  { x: 0.6, y: 0.7 },
+  { x: 0.6, y: 0.78 },
+  { x: 0.4, y: 0.78 },
+];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Shows the image with the plate quad drawn over it.
+ * When editable, each corner can be dragged independently.
+ */
+const PlateRegionEditor: React.FC<PlateRegionEditorProps> = ({
+  image,
+  region,
+  onRegionChange,
+  editable,
+  className = '',
+  overlay
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragIndex === null || !region || !overlayRef.current) return;
+
+    const rect = overlayRef.current.getBoundingClientRect();
+    const next = region.map((point, index) => index === dragIndex
+      ? { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) }
+      : point
+    ) as PlateQuad;
+    onRegionChange(next);
+  };
+
+  const stopDragging = () => setDragIndex(null);
+
+  return (
+    <div className={`w-full h-full flex items-center justify-center ${className}`}>
+      <div
+        ref={overlayRef}
+        className={`relative ${editable ? 'touch-none' : ''}`}
+        onPointerMove={handlePointerMove}
+        onPointerUp={stopDragging}
+        onPointerLeave={stopDragging}
+      >
+        <img
+          src={image}
+          alt="Uploaded"
+          draggable={false}
+          className="block max-w-full max-h-[600px] select-none"
+        />
+        {overlay}
+        {region && (
+          <svg
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          >
+            <polygon
+              points={region.map(p => `${p.x},${p.y}`).join(' ')}
+              className="fill-indigo-500/25 stroke-indigo-400"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+        {region && editable && region.map((point, index) => (
+          <div
+            key={index}
+            onPointerDown={(e) => {
+              e.preventDefault();
+              setDragIndex(index);
+            }}
+            style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-indigo-600 shadow cursor-move"
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PlateRegionEditor;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { PlateCondition, PlateFont, PlateFrame, PlateKind, PlateStyle } from '../types';
+
+interface PlateStyleControlsProps {
+  style: PlateStyle;
+  onChange: (style: PlateStyle) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<PlateKind, string> = {
+  standard: 'Standard',
+  vanity: 'Vanity',
+  temporary: 'Temporary paper',
+  motorcycle: 'Motorcycle',
+};
+
+const CONDITION_LABELS: Record<PlateCondition, string> = {
+  new: 'New',
+  weathered: 'Weathered',
+  dirty: 'Dirty',
+  dented: 'Dented',
+};
+
+const FRAME_LABELS: Record<PlateFrame, string> = {
+  none: 'No frame',
+  plain: 'Plain frame',
+  dealer: 'Dealer frame',
+};
+
+const FONT_LABELS: Record<PlateFont, string> = {
+  standard: 'Country standard',
+  embossed: 'Embossed',
+  flat: 'Flat printed',
+};
+
+const selectClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none disabled:opacity-50";
+
+/**
+ * Realism options for model-generated plates: kind, wear, frame, stickers and lettering.
+ */
+const PlateStyleControls: React.FC<PlateStyleControlsProps> = ({ style, onChange, disabled = false }) => {
+  const update = (patch: Partial<PlateStyle>) => onChange({ ...style, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Plate Type</label>
+          <select
+            value={style.kind}
+            disabled={disabled}
+            onChange={(e) => update({ kind: e.target.value as PlateKind })}
+            className={selectClass}
+          >
+            {(Object.keys(KIND_LABELS) as PlateKind[]).map(kind => (
+              <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Condition</label>
+          <select
+            value={style.condition}
+            disabled={disabled}
+            onChange={(e) => update({ condition: e.target.value as PlateCondition })}
+            className={selectClass}
+          >
+            {(Object.keys(CONDITION_LABELS) as PlateCondition[]).map(condition => (
+              <option key={condition} value={condition}>{CONDITION_LABELS[condition]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Lettering</label>
+          <select
+            value={style.font}
+            disabled={disabled}
+            onChange={(e) => update({ font: e.target.value as PlateFont })}
+            className={selectClass}
+          >
+            {(Object.keys(FONT_LABELS) as PlateFont[]).map(font => (
+              <option key={font} value={font}>{FONT_LABELS[font]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">Surround</label>
+          <select
+            value={style.frame}
+            disabled={disabled}
+            onChange={(e) => update({ frame: e.target.value as PlateFrame })}
+            className={selectClass}
+          >
+            {(Object.keys(FRAME_LABELS) as PlateFrame[]).map(frame => (
+              <option key={frame} value={frame}>{FRAME_LABELS[frame]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {style.frame === 'dealer' && (
+        <input
+          type="text"
+          placeholder="Dealer name (optional)"
+          value={style.dealerName}
+          disabled={disabled}
+          maxLength={40}
+          onChange={(e) => update({ dealerName: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 outline-none"
+        />
+      )}
+      <label className="flex items-center text-sm text-slate-400">
+        <input
+          type="checkbox"
+          checked={style.stickers}
+          disabled={disabled}
+          onChange={(e) => update({ stickers: e.target.checked })}
+          className="mr-2"
+        />
+        Registration stickers
+      </label>
+      {style.kind === 'vanity' || style.kind === 'temporary' ? (
+        <p className="text-xs text-slate-500">Plate numbers are used as typed, without checking the country's format.</p>
+      ) : null}
+    </div>
+  );
+};
+
+export default PlateStyleControls;
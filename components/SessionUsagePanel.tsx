@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import {
+  formatUsd,
+  getSessionUsage,
+  getUsageBudget,
+  resetSessionUsage,
+  setUsageBudget,
+  subscribeUsage,
+  UsageBudget,
+} from '../services/usageService';
+
+/**
+ * Running model spend for this session, with the budget that warns about or
+ * blocks runs that would go over it.
+ */
+const SessionUsagePanel: React.FC = () => {
+  const [session, setSession] = useState(getSessionUsage);
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  const [limitInput, setLimitInput] = useState(() => (budget.limitUsd === null ? '' : String(budget.limitUsd)));
+
+  useEffect(() => subscribeUsage(() => {
+    setSession(getSessionUsage());
+    setBudget(getUsageBudget());
+  }), []);
+
+  const handleLimitChange = (value: string) => {
+    setLimitInput(value);
+    const limit = Number(value);
+    if (!value.trim()) {
+      setUsageBudget({ ...budget, limitUsd: null });
+    } else if (Number.isFinite(limit) && limit >= 0) {
+      setUsageBudget({ ...budget, limitUsd: limit });
+    }
+  };
+
+  const overBudget = budget.limitUsd !== null && session.costUsd > budget.limitUsd;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-6 rounded-2xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Session Usage</h3>
+        <button
+          type="button"
+          onClick={resetSessionUsage}
+          disabled={session.runs === 0}
+          className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-baseline justify-between">
+        <span className={`text-2xl font-bold ${overBudget ? 'text-red-400' : 'text-white'}`}>
+          {session.costEstimated ? '~' : ''}{formatUsd(session.costUsd)}
+        </span>
+        <span className="text-xs text-slate-500">
+          {session.runs} run{session.runs === 1 ? '' : 's'} · {session.calls} call{session.calls === 1 ? '' : 's'} · {(session.durationMs / 1000).toFixed(1)}s
+        </span>
+      </div>
+
+      <div className="flex space-x-2">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-slate-400 mb-1">Budget (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="No limit"
+            value={limitInput}
+            onChange={(e) => handleLimitChange(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 outline-none"
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-slate-400 mb-1">When exceeded</label>
+          <select
+            value={budget.action}
+            onChange={(e) => setUsageBudget({ ...budget, action: e.target.value as UsageBudget['action'] })}
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none"
+          >
+            <option value="warn">Warn</option>
+            <option value="block">Block new runs</option>
+          </select>
+        </div>
+      </div>
+
+      {session.costEstimated && (
+        <p className="text-xs text-slate-500">~ Some calls reported no token counts and are priced from typical costs.</p>
+      )}
+    </div>
+  );
+};
+
+export default SessionUsagePanel;
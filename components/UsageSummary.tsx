@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { formatUsd } from '../services/usageService';
+import { ModelCallKind, UsageSummary as UsageSummaryData } from '../types';
+
+interface UsageSummaryProps {
+  usage: UsageSummaryData;
+}
+
+const KIND_LABELS: Record<ModelCallKind, string> = {
+  'detect-plate': 'Plate detection',
+  'detect-vehicles': 'Vehicle detection',
+  edit: 'Image edit',
+  ocr: 'Plate reading',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatTokens = (value: number | null) => (value === null ? '—' : value.toLocaleString());
+
+/**
+ * Model calls made for one result, with their latency, tokens and cost.
+ */
+const UsageSummary: React.FC<UsageSummaryProps> = ({ usage }) => {
+  const [expanded, setExpanded] = useState(false);
+  const counts: Partial<Record<ModelCallKind, number>> = {};
+  usage.calls.forEach(call => {
+    counts[call.kind] = (counts[call.kind] ?? 0) + 1;
+  });
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Usage</h3>
+        <span className="text-sm font-semibold text-white" title={usage.costEstimated ? 'Some calls are priced from typical costs' : undefined}>
+          {usage.costEstimated ? '~' : ''}{formatUsd(usage.costUsd)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <p className="text-slate-500">Calls</p>
+          <p className="text-slate-200">{usage.calls.length}</p>
+        </div>
+        <div>
+          <p className="text-slate-500">Model time</p>
+          <p className="text-slate-200">{formatSeconds(usage.durationMs)}</p>
+        </div>
+        <div>
+          <p className="text-slate-500">Tokens in / out</p>
+          <p className="text-slate-200">{usage.inputTokens.toLocaleString()} / {usage.outputTokens.toLocaleString()}</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        {(Object.keys(KIND_LABELS) as ModelCallKind[])
+          .filter(kind => counts[kind])
+          .map(kind => `${counts[kind]} × ${KIND_LABELS[kind].toLowerCase()}`)
+          .join(' · ')}
+      </p>
+
+      <button
+        type="button"
+        onClick={() => setExpanded(prev => !prev)}
+        className="text-xs text-indigo-400 hover:text-indigo-300"
+      >
+        {expanded ? 'Hide calls' : 'Show calls'}
+      </button>
+
+      {expanded && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500 text-left">
+              <th className="font-medium pb-1">Call</th>
+              <th className="font-medium pb-1">Model</th>
+              <th className="font-medium pb-1 text-right">Time</th>
+              <th className="font-medium pb-1 text-right">Tokens</th>
+              <th className="font-medium pb-1 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.calls.map((call, index) => (
+              <tr key={index} className="text-slate-300">
+                <td className="py-0.5">
+                  {KIND_LABELS[call.kind]}
+                  {call.outcome !== 'ok' && (
+                    <span className={call.outcome === 'error' ? 'text-red-400' : 'text-slate-500'}>
+                      {' '}({call.outcome === 'error' ? call.errorKind || 'error' : 'cancelled'})
+                    </span>
+                  )}
+                </td>
+                <td className="py-0.5 font-mono text-slate-400">{call.model}</td>
+                <td className="py-0.5 text-right">{formatSeconds(call.durationMs)}</td>
+                <td className="py-0.5 text-right">{formatTokens(call.inputTokens)} / {formatTokens(call.outputTokens)}</td>
+                <td className="py-0.5 text-right">{call.costEstimated ? '~' : ''}{formatUsd(call.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default UsageSummary;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { BoundingBox, DetectedVehicle } from '../types';
+
+interface VehicleOverlayProps {
+  vehicles: DetectedVehicle[];
+  selectedIds: string[];
+  onToggle: (vehicle: DetectedVehicle) => void;
+  disabled?: boolean;
+}
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+/**
+ * Clickable boxes over each detected vehicle. Selected vehicles are highlighted
+ * and numbered in the order they will be edited.
+ */
+const VehicleOverlay: React.FC<VehicleOverlayProps> = ({ vehicles, selectedIds, onToggle, disabled = false }) => (
+  <div className="absolute inset-0">
+    {vehicles.map(vehicle => {
+      const order = selectedIds.indexOf(vehicle.id);
+      const isSelected = order !== -1;
+      return (
+        <button
+          key={vehicle.id}
+          type="button"
+          disabled={disabled}
+          onClick={() => onToggle(vehicle)}
+          title={vehicle.label}
+          style={boxStyle(vehicle.box)}
+          className={`absolute rounded border-2 transition-colors ${isSelected ? 'border-indigo-400 bg-indigo-500/20' : 'border-white/50 hover:border-white hover:bg-white/10'}`}
+        >
+          <span className={`absolute -top-6 left-0 text-[10px] px-1.5 py-0.5 rounded whitespace-nowrap ${isSelected ? 'bg-indigo-600 text-white' : 'bg-black/70 text-slate-200'}`}>
+            {isSelected ? `${order + 1}. ` : ''}{vehicle.label}
+          </span>
+          {vehicle.plate && (
+            <span
+              style={boxStyle({
+                x: (vehicle.plate.x - vehicle.box.x) / vehicle.box.width,
+                y: (vehicle.plate.y - vehicle.box.y) / vehicle.box.height,
+                width: vehicle.plate.width / vehicle.box.width,
+                height: vehicle.plate.height / vehicle.box.height,
+              })}
+              className="absolute border border-dashed border-amber-300 pointer-events-none"
+            />
+          )}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default VehicleOverlay;
@@ -0,0 +1,85 @@
+import React from 'react';
+import CountryPicker from './CountryPicker';
+import { findPlateFormat, formatPlateNumber, validatePlateNumber } from '../services/plateFormats';
+import { DetectedVehicle, VehicleTarget } from '../types';
+
+interface VehicleTargetListProps {
+  vehicles: DetectedVehicle[];
+  targets: VehicleTarget[];
+  onToggle: (vehicle: DetectedVehicle) => void;
+  onChange: (targets: VehicleTarget[]) => void;
+  disabled?: boolean;
+  /** Take plate numbers as typed instead of formatting and validating them, e.g. for vanity plates. */
+  freeformNumbers?: boolean;
+}
+
+const inputClass = "w-full bg-slate-800 border rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none";
+
+/**
+ * Lists detected vehicles. Each selected vehicle gets its own plate number and country.
+ */
+const VehicleTargetList: React.FC<VehicleTargetListProps> = ({ vehicles, targets, onToggle, onChange, disabled = false, freeformNumbers = false }) => {
+  const formatFor = (plateCountry: string) => (freeformNumbers ? null : findPlateFormat(plateCountry));
+
+  const updateTarget = (vehicleId: string, patch: Partial<VehicleTarget>) => {
+    onChange(targets.map(target => (target.vehicle.id === vehicleId ? { ...target, ...patch } : target)));
+  };
+
+  if (vehicles.length === 0) {
+    return <p className="text-xs text-slate-500">No vehicles were found in this image.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {vehicles.map(vehicle => {
+        const target = targets.find(other => other.vehicle.id === vehicle.id);
+        const format = target ? formatFor(target.plateCountry) : null;
+        const numberError = target && format ? validatePlateNumber(target.plateNumber, format) : null;
+
+        return (
+          <div key={vehicle.id} className={`rounded-lg border p-3 ${target ? 'border-indigo-500/40 bg-indigo-500/5' : 'border-slate-800'}`}>
+            <label className="flex items-center text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={!!target}
+                disabled={disabled}
+                onChange={() => onToggle(vehicle)}
+                className="mr-2"
+              />
+              <span className="capitalize">{vehicle.label}</span>
+              <span className="ml-auto text-xs text-slate-500">{vehicle.plate ? 'Plate visible' : 'No plate'}</span>
+            </label>
+            {target && (
+              <div className="mt-3 space-y-2">
+                <CountryPicker
+                  value={target.plateCountry}
+                  onChange={(plateCountry) => {
+                    const nextFormat = formatFor(plateCountry);
+                    updateTarget(vehicle.id, {
+                      plateCountry,
+                      plateNumber: nextFormat ? formatPlateNumber(target.plateNumber, nextFormat) : target.plateNumber,
+                    });
+                  }}
+                  className={`${inputClass} border-slate-700`}
+                />
+                <input
+                  type="text"
+                  placeholder={`e.g., ${format?.example || 'ABC 1234'}`}
+                  value={target.plateNumber}
+                  disabled={disabled}
+                  onChange={(e) => updateTarget(vehicle.id, {
+                    plateNumber: format ? formatPlateNumber(e.target.value, format) : e.target.value.toUpperCase(),
+                  })}
+                  className={`${inputClass} tracking-wider uppercase ${numberError ? 'border-amber-500/60' : 'border-slate-700'}`}
+                />
+                {numberError && <p className="text-xs text-amber-400">{numberError}</p>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VehicleTargetList;
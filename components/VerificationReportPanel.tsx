@@ -0,0 +1,84 @@
+import React from 'react';
+import { VerificationReport } from '../types';
+
+interface VerificationReportPanelProps {
+  report: VerificationReport;
+  attemptReports: VerificationReport[];
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Shows what the OCR read back from the result and how it compares, character by character.
+ */
+const VerificationReportPanel: React.FC<VerificationReportPanelProps> = ({ report, attemptReports }) => {
+  const wrongPositions = new Set(report.mismatches.filter(m => m.expected !== null).map(m => m.position));
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-sm p-4 rounded-xl border border-slate-800 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300">Verification</h3>
+        <span className={`text-xs font-semibold px-2 py-1 rounded ${report.passed ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'}`}>
+          {report.passed
+            ? 'Passed'
+            : report.distance === 0 && report.change && !report.change.passed
+              ? 'Best effort · image changed'
+              : `Best effort · ${percent(report.similarity)} match`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Expected</p>
+          <p className="font-mono tracking-wider">
+            {Array.from(report.expected).map((ch, index) => (
+              <span key={index} className={wrongPositions.has(index) ? 'text-red-400 underline' : 'text-slate-200'}>{ch}</span>
+            ))}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Read by OCR</p>
+          <p className="font-mono tracking-wider text-slate-200">{report.ocrText || '—'}</p>
+        </div>
+      </div>
+
+      {report.mismatches.length > 0 && (
+        <ul className="text-xs text-slate-400 space-y-1">
+          {report.mismatches.map((m, index) => (
+            <li key={index}>
+              {m.expected === null
+                ? `Extra "${m.found}" before position ${m.position + 1}`
+                : m.found === null
+                  ? `Missing "${m.expected}" at position ${m.position + 1}`
+                  : `Position ${m.position + 1}: expected "${m.expected}", read "${m.found}"`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.error && <p className="text-xs text-red-400">OCR failed: {report.error}</p>}
+
+      {report.change && (
+        <p className={`text-xs ${report.change.passed ? 'text-slate-400' : 'text-amber-400'}`}>
+          Outside the plate: {percent(report.change.score)} of the image changed
+          {report.change.passed ? '' : ` (limit ${percent(report.change.threshold)}), so this attempt was rejected`}
+        </p>
+      )}
+
+      {attemptReports.length > 1 && (
+        <div className="flex flex-wrap gap-2 pt-2 border-t border-slate-800">
+          {attemptReports.map((r, index) => (
+            <span
+              key={index}
+              className={`text-xs px-2 py-1 rounded border ${r === report ? 'border-indigo-500 text-indigo-300' : 'border-slate-700 text-slate-500'}`}
+            >
+              {r.position && <span className="capitalize">{r.position} · </span>}Attempt {r.attempt}: {percent(r.similarity)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationReportPanel;
@@ -0,0 +1,96 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { PlateMorphError, RateLimitError, serializeError, UnsupportedInputError } from '../services/errors';
+import { PlateErrorKind } from '../types';
+
+const STATUS_BY_KIND: Record<PlateErrorKind, number> = {
+  'missing-key': 500,
+  'rate-limited': 429,
+  'service-unavailable': 503,
+  'safety-blocked': 422,
+  'no-image': 502,
+  'verification-failed': 422,
+  'plate-detected': 409,
+  'unsupported-input': 400,
+  'budget-exceeded': 402,
+  'unknown': 500,
+};
+
+/** Thrown when a request body is over the size limit. Answered with 413. */
+export class PayloadTooLargeError extends UnsupportedInputError {
+  constructor(maxBytes: number) {
+    super(`The request is larger than the ${Math.round(maxBytes / (1024 * 1024))} MB limit. Use a smaller image.`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export type RequestBody = Record<string, unknown>;
+
+const IMAGE_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+/**
+ * Reads and parses a JSON body, failing as soon as it passes `maxBytes`
+ * instead of buffering the rest.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    throw new PayloadTooLargeError(maxBytes);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new PayloadTooLargeError(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new UnsupportedInputError("The request body is not valid JSON.");
+  }
+};
+
+/** Like readJsonBody, but only accepts a JSON object. */
+export const readJsonObject = async (req: IncomingMessage, maxBytes: number): Promise<RequestBody> => {
+  const body = await readJsonBody(req, maxBytes);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new UnsupportedInputError("The request body must be a JSON object.");
+  }
+  return body as RequestBody;
+};
+
+export const readImage = (body: RequestBody): string => {
+  if (typeof body.image !== 'string' || !IMAGE_PATTERN.test(body.image)) {
+    throw new UnsupportedInputError("Expected `image` to be a PNG, JPEG or WebP data URL.");
+  }
+  return body.image;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Answers with the serialized error and the matching status code.
+ */
+export const sendError = (res: ServerResponse, error: unknown) => {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  const status = error instanceof PayloadTooLargeError
+    ? 413
+    : error instanceof PlateMorphError ? STATUS_BY_KIND[error.kind] : 500;
+  const headers: Record<string, string> = {};
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+  }
+  // Large uploads are rejected before they are read in full; close rather than drain them.
+  if (status === 413) headers.Connection = 'close';
+  sendJson(res, status, { error: serializeError(error) }, headers);
+};
@@ -0,0 +1,188 @@
+import { existsSync } from 'node:fs';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createGeminiProvider, createMockProvider, ImageModelProvider, ModelUsage, ProviderCallOptions, setImageProvider } from '../services/providers';
+import { isAbortError } from '../services/abort';
+import { PlateMorphError, RateLimitError, toErrorNotice, UnsupportedInputError } from '../services/errors';
+import { readImage, readJsonObject, RequestBody, sendError, sendJson } from './http';
+import { createRateLimiter } from './rateLimiter';
+import { createJobQueue } from './jobQueue';
+import { handleJobRequest, jobView } from './jobRoutes';
+import { deliverWebhook } from './webhooks';
+import { PlatePosition } from '../types';
+
+// Same files the dev server reads. Variables already set in the environment win,
+// and .env.local is loaded first so it overrides .env.
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+const MAX_BODY_BYTES = (Number(process.env.MAX_BODY_MB) || 15) * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+/** Honour X-Forwarded-For only behind a reverse proxy that sets it. */
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+/** Origin allowed to call the API cross-site. Unset means same-origin only. */
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const JOB_QUEUE_LIMIT = Number(process.env.JOB_QUEUE_LIMIT) || 100;
+const JOB_RETENTION_MS = (Number(process.env.JOB_RETENTION_MINUTES) || 60) * 60_000;
+/** Bearer token for /api/jobs. Unset leaves the job API open, like the provider endpoints. */
+const JOB_API_TOKEN = process.env.JOB_API_TOKEN || '';
+/** Signs webhook bodies when set. */
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+/** Comma-separated hosts webhooks may go to. Unset allows any host that resolves to a public address. */
+const WEBHOOK_ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const MAX_PROMPT_LENGTH = 8000;
+
+const createProvider = (): ImageModelProvider => {
+  if (process.env.IMAGE_PROVIDER === 'mock') {
+    return createMockProvider();
+  }
+  return createGeminiProvider(process.env.GEMINI_API_KEY || process.env.API_KEY, {
+    baseUrl: process.env.GEMINI_BASE_URL || undefined,
+  });
+};
+
+let provider: ImageModelProvider;
+try {
+  provider = createProvider();
+} catch (e) {
+  const notice = toErrorNotice(e);
+  console.error(`Cannot start the API server: ${notice.message} Set GEMINI_API_KEY in .env.local, or IMAGE_PROVIDER=mock to serve canned results.`);
+  process.exit(1);
+}
+
+// Jobs call generatePlate, which uses the configured provider.
+setImageProvider(provider);
+
+const limiter = createRateLimiter({ limit: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
+
+const jobs = createJobQueue({
+  concurrency: JOB_CONCURRENCY,
+  maxQueued: JOB_QUEUE_LIMIT,
+  retentionMs: JOB_RETENTION_MS,
+  onFinished: (job) => {
+    if (job.webhookUrl) {
+      deliverWebhook(job.webhookUrl, 'job.finished', jobView(jobs, job), { secret: WEBHOOK_SECRET || undefined, allowedHosts: WEBHOOK_ALLOWED_HOSTS });
+    }
+  },
+});
+
+const readPosition = (body: RequestBody): PlatePosition | undefined => {
+  if (body.position === undefined || body.position === null) return undefined;
+  if (body.position !== 'front' && body.position !== 'rear') {
+    throw new UnsupportedInputError("Expected `position` to be 'front' or 'rear'.");
+  }
+  return body.position;
+};
+
+const readPrompt = (body: RequestBody): string => {
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+    throw new UnsupportedInputError("Expected a non-empty `prompt`.");
+  }
+  if (body.prompt.length > MAX_PROMPT_LENGTH) {
+    throw new UnsupportedInputError(`The prompt is longer than ${MAX_PROMPT_LENGTH} characters.`);
+  }
+  return body.prompt;
+};
+
+/** One entry per provider method; the proxy provider in the client mirrors these. */
+const routes: Record<string, (body: RequestBody, options: ProviderCallOptions) => Promise<object>> = {
+  'detect-plate': async (body, options) => ({
+    hasPlate: await provider.detectPlate(readImage(body), { ...options, position: readPosition(body) }),
+  }),
+  'detect-vehicles': async (body, options) => ({
+    vehicles: await provider.detectVehicles(readImage(body), options),
+  }),
+  generate: async (body, options) => ({
+    image: await provider.editImage(readImage(body), readPrompt(body), options),
+  }),
+  verify: async (body, options) => ({
+    text: await provider.readPlateText(readImage(body), { ...options, position: readPosition(body) }),
+  }),
+};
+
+const clientId = (req: IncomingMessage) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Vary', 'Origin');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  if (req.method === 'GET' && pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, provider: provider.name });
+    return;
+  }
+
+  // Only requests that cost model calls count towards the limit; polling is free.
+  if (req.method === 'POST') {
+    const decision = limiter.take(clientId(req));
+    if (!decision.allowed) {
+      sendError(res, new RateLimitError(
+        `Too many requests. Try again in ${Math.ceil(decision.retryAfterMs / 1000)}s.`,
+        decision.retryAfterMs
+      ));
+      return;
+    }
+  }
+
+  if (pathname === '/api/jobs' || pathname.startsWith('/api/jobs/')) {
+    await handleJobRequest(req, res, pathname, { queue: jobs, maxBodyBytes: MAX_BODY_BYTES, token: JOB_API_TOKEN, webhookAllowedHosts: WEBHOOK_ALLOWED_HOSTS });
+    return;
+  }
+
+  const route = pathname.startsWith('/api/') ? routes[pathname.slice('/api/'.length)] : undefined;
+  if (!route) {
+    sendJson(res, 404, { error: { kind: 'unknown', message: `No endpoint at ${pathname}.` } });
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: { kind: 'unknown', message: "Use POST." } }, { Allow: 'POST' });
+    return;
+  }
+
+  // Stop the model call if the browser cancels or goes away.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonObject(req, MAX_BODY_BYTES);
+    // Passed back so the client can count tokens and cost per call.
+    let usage: ModelUsage | null = null;
+    const result = await route(body, { signal: controller.signal, onUsage: (reported) => { usage = reported; } });
+    sendJson(res, 200, { ...result, usage });
+  } catch (e) {
+    if (isAbortError(e) && controller.signal.aborted) return;
+    if (!(e instanceof PlateMorphError)) console.error(`${pathname} failed:`, e);
+    sendError(res, e);
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch((e) => sendError(res, e));
+}).listen(PORT, () => {
+  console.log(`PlateMorph API server (${provider.name}) listening on http://localhost:${PORT}/api`);
+  if (!JOB_API_TOKEN) {
+    console.warn(
+      "WARNING: JOB_API_TOKEN is not set, so anyone who can reach this server can queue paid jobs and make it send webhooks. "
+      + "Set JOB_API_TOKEN unless the server is only reachable from trusted machines."
+    );
+  }
+});
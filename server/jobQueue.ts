@@ -0,0 +1,209 @@
+import { randomUUID } from 'node:crypto';
+import { generatePlate } from '../services/geminiService';
+import { isAbortError } from '../services/abort';
+import { ServiceUnavailableError, toErrorNotice, VerificationFailedError } from '../services/errors';
+import { loadInputImage, NodeImage, toOriginalSizePng } from '../cli/nodeImage';
+import { ErrorNotice, GenerationResult } from '../types';
+
+/** Modes that run without a browser canvas. */
+export type JobMode = 'add' | 'replace';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobRequest {
+  /** PNG, JPEG or WebP data URL. */
+  image: string;
+  plateNumber: string;
+  plateCountry: string;
+  mode: JobMode;
+  skipDetection: boolean;
+  /** Called with the job summary once the job finishes. */
+  webhookUrl: string | null;
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  /** Latest progress message from generatePlate. */
+  statusMessage: string;
+  plateNumber: string;
+  plateCountry: string;
+  mode: JobMode;
+  skipDetection: boolean;
+  webhookUrl: string | null;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  /** Set on success, and on failure when there is a best attempt to show. The image is a PNG at the upload's resolution. */
+  result: GenerationResult | null;
+  error: ErrorNotice | null;
+}
+
+export interface JobQueueOptions {
+  /** Jobs that run at the same time. */
+  concurrency: number;
+  /** Jobs that may wait; submitting more fails with ServiceUnavailableError. */
+  maxQueued: number;
+  /** How long finished jobs, with their images, are kept. */
+  retentionMs: number;
+  onFinished?: (job: Job) => void;
+}
+
+export type JobListener = (job: Job) => void;
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+export const isFinished = (job: Job) => job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * In-memory FIFO queue that runs generatePlate jobs with a concurrency limit
+ * and forgets finished jobs after the retention period.
+ */
+export const createJobQueue = (options: JobQueueOptions) => {
+  const { concurrency, maxQueued, retentionMs, onFinished } = options;
+  const jobs = new Map<string, Job>();
+  // Uploads are only held until their job starts.
+  const images = new Map<string, string>();
+  const waiting: string[] = [];
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Map<string, Set<JobListener>>();
+  let running = 0;
+
+  const update = (job: Job, patch: Partial<Job>) => {
+    Object.assign(job, patch);
+    listeners.get(job.id)?.forEach(listener => listener(job));
+    if (isFinished(job)) {
+      listeners.delete(job.id);
+      onFinished?.(job);
+    }
+  };
+
+  const run = async (job: Job) => {
+    const image = images.get(job.id)!;
+    images.delete(job.id);
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job, { status: 'running', startedAt: Date.now(), statusMessage: 'Initializing...' });
+
+    let input: NodeImage | null = null;
+    const withOriginalSize = async (result: GenerationResult): Promise<GenerationResult> => {
+      const png = await toOriginalSizePng(result.image, input!.width, input!.height);
+      return { ...result, image: `data:image/png;base64,${Buffer.from(png).toString('base64')}` };
+    };
+
+    try {
+      input = await loadInputImage(Buffer.from(image.split(',')[1], 'base64'));
+      const result = await generatePlate(
+        input.dataUrl,
+        job.plateNumber,
+        job.plateCountry,
+        job.mode,
+        (status) => update(job, { statusMessage: status }),
+        { skipDetection: job.skipDetection, signal: controller.signal }
+      );
+      update(job, { status: 'succeeded', statusMessage: 'Complete!', result: await withOriginalSize(result), finishedAt: Date.now() });
+    } catch (err) {
+      if (isAbortError(err)) {
+        update(job, { status: 'cancelled', statusMessage: 'Cancelled', finishedAt: Date.now() });
+        return;
+      }
+      // Keep the best attempt so the caller can still judge it.
+      const partial = err instanceof VerificationFailedError && input ? await withOriginalSize(err.result) : null;
+      update(job, { status: 'failed', statusMessage: '', result: partial, error: toErrorNotice(err), finishedAt: Date.now() });
+    } finally {
+      controllers.delete(job.id);
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = jobs.get(waiting.shift()!);
+      if (!job || job.status !== 'queued') continue;
+      running++;
+      run(job)
+        .catch((e) => console.error(`Job ${job.id} crashed:`, e))
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+  };
+
+  const sweep = () => {
+    const cutoff = Date.now() - retentionMs;
+    for (const [id, job] of jobs) {
+      if (isFinished(job) && job.finishedAt! < cutoff) jobs.delete(id);
+    }
+  };
+  setInterval(sweep, Math.min(SWEEP_INTERVAL_MS, retentionMs)).unref();
+
+  return {
+    submit(request: JobRequest): Job {
+      if (waiting.length >= maxQueued) {
+        throw new ServiceUnavailableError(`The job queue is full (${maxQueued} waiting). Try again later.`);
+      }
+      const { image, ...details } = request;
+      const job: Job = {
+        id: randomUUID(),
+        status: 'queued',
+        statusMessage: 'Queued',
+        ...details,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        result: null,
+        error: null,
+      };
+      jobs.set(job.id, job);
+      images.set(job.id, image);
+      waiting.push(job.id);
+      pump();
+      return job;
+    },
+
+    get(id: string): Job | null {
+      return jobs.get(id) ?? null;
+    },
+
+    /** Zero-based place in line, or null once the job has started. */
+    queuePosition(id: string): number | null {
+      const index = waiting.indexOf(id);
+      return index === -1 ? null : index;
+    },
+
+    /**
+     * Cancels a queued or running job. A running job stops at its next check.
+     */
+    cancel(id: string): Job | null {
+      const job = jobs.get(id);
+      if (!job) return null;
+      if (job.status === 'queued') {
+        waiting.splice(waiting.indexOf(id), 1);
+        images.delete(id);
+        update(job, { status: 'cancelled', statusMessage: 'Cancelled', finishedAt: Date.now() });
+      } else if (job.status === 'running') {
+        controllers.get(id)?.abort();
+      }
+      return job;
+    },
+
+    /** Removes a finished job before its retention period ends. */
+    remove(id: string): boolean {
+      const job = jobs.get(id);
+      if (!job || !isFinished(job)) return false;
+      return jobs.delete(id);
+    },
+
+    /** Calls the listener on every change until the job finishes. Returns an unsubscribe function. */
+    subscribe(id: string, listener: JobListener): () => void {
+      const set = listeners.get(id) ?? new Set<JobListener>();
+      set.add(listener);
+      listeners.set(id, set);
+      return () => {
+        set.delete(listener);
+      };
+    },
+  };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
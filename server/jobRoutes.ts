@@ -0,0 +1,215 @@
+import { timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { UnsupportedInputError } from '../services/errors';
+import { findPlateFormat, formatPlateNumber } from '../services/plateFormats';
+import { readImage, readJsonObject, RequestBody, sendError, sendJson } from './http';
+import { isFinished, Job, JobMode, JobQueue } from './jobQueue';
+import { assertWebhookTarget } from './webhooks';
+
+const HEARTBEAT_MS = 15_000;
+
+export interface JobRoutesOptions {
+  queue: JobQueue;
+  maxBodyBytes: number;
+  /** Bearer token required on every job request. Empty disables the check. */
+  token: string;
+  /** Hosts webhooks may be sent to. Empty allows any public host. */
+  webhookAllowedHosts: string[];
+}
+
+const toIso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+/**
+ * Public summary of a job, without images. Also used as the webhook payload.
+ */
+export const jobView = (queue: JobQueue, job: Job) => {
+  const self = `/api/jobs/${job.id}`;
+  return {
+    id: job.id,
+    status: job.status,
+    statusMessage: job.statusMessage,
+    mode: job.mode,
+    plateNumber: job.plateNumber,
+    plateCountry: job.plateCountry,
+    createdAt: toIso(job.createdAt),
+    startedAt: toIso(job.startedAt),
+    finishedAt: toIso(job.finishedAt),
+    queuePosition: queue.queuePosition(job.id),
+    verified: job.result?.verified ?? null,
+    attempts: job.result?.attempts ?? null,
+    error: job.error,
+    links: { self, events: `${self}/events`, result: `${self}/result`, image: `${self}/image` },
+  };
+};
+
+const readString = (body: RequestBody, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new UnsupportedInputError(`Expected a non-empty \`${field}\`.`);
+  }
+  return value.trim();
+};
+
+const readMode = (body: RequestBody): JobMode => {
+  if (body.mode === undefined) return 'add';
+  if (body.mode !== 'add' && body.mode !== 'replace') {
+    throw new UnsupportedInputError("Expected `mode` to be 'add' or 'replace'.");
+  }
+  return body.mode;
+};
+
+const readWebhookUrl = async (body: RequestBody, allowedHosts: string[]): Promise<string | null> => {
+  if (body.webhookUrl === undefined || body.webhookUrl === null) return null;
+  if (typeof body.webhookUrl !== 'string') {
+    throw new UnsupportedInputError("Expected `webhookUrl` to be a string.");
+  }
+  try {
+    await assertWebhookTarget(body.webhookUrl, allowedHosts);
+  } catch (e: any) {
+    throw new UnsupportedInputError(e.message);
+  }
+  return body.webhookUrl;
+};
+
+const isAuthorized = (req: IncomingMessage, token: string) => {
+  if (!token) return true;
+  const given = Buffer.from(String(req.headers.authorization || ''));
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const streamEvents = (req: IncomingMessage, res: ServerResponse, queue: JobQueue, job: Job) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store', Connection: 'keep-alive' });
+  const send = (current: Job) => res.write(`event: status\ndata: ${JSON.stringify(jobView(queue, current))}\n\n`);
+
+  send(job);
+  if (isFinished(job)) {
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+  const unsubscribe = queue.subscribe(job.id, (current) => {
+    send(current);
+    if (isFinished(current)) {
+      cleanup();
+      res.end();
+    }
+  });
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  req.on('close', cleanup);
+};
+
+/**
+ * Serves /api/jobs:
+ *   POST   /api/jobs              queue a job, answers 202 with its summary
+ *   GET    /api/jobs/:id          poll the summary
+ *   GET    /api/jobs/:id/events   Server-Sent Events with the summary on every progress message
+ *   GET    /api/jobs/:id/result   result image as a data URL, plus the verification reports and model usage
+ *   GET    /api/jobs/:id/image    result image as PNG
+ *   DELETE /api/jobs/:id          cancel a queued or running job, or delete a finished one
+ */
+export const handleJobRequest = async (req: IncomingMessage, res: ServerResponse, pathname: string, options: JobRoutesOptions) => {
+  const { queue, maxBodyBytes, token, webhookAllowedHosts } = options;
+  if (!isAuthorized(req, token)) {
+    sendJson(res, 401, { error: { kind: 'unknown', message: "Missing or invalid job API token." } }, { 'WWW-Authenticate': 'Bearer' });
+    return;
+  }
+
+  const [id, action] = pathname.slice('/api/jobs'.length).split('/').filter(Boolean);
+
+  if (!id) {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: { kind: 'unknown', message: "Use POST to create a job." } }, { Allow: 'POST' });
+      return;
+    }
+    try {
+      const body = await readJsonObject(req, maxBodyBytes);
+      const plateCountry = readString(body, 'plateCountry');
+      const plateFormat = findPlateFormat(plateCountry);
+      const plateNumber = readString(body, 'plateNumber');
+      const webhookUrl = await readWebhookUrl(body, webhookAllowedHosts);
+      const job = queue.submit({
+        image: readImage(body),
+        plateNumber: plateFormat ? formatPlateNumber(plateNumber, plateFormat) : plateNumber.toUpperCase(),
+        plateCountry,
+        mode: readMode(body),
+        skipDetection: body.skipDetection === true,
+        webhookUrl,
+      });
+      sendJson(res, 202, jobView(queue, job), { Location: `/api/jobs/${job.id}` });
+    } catch (e) {
+      sendError(res, e);
+    }
+    return;
+  }
+
+  const job = queue.get(id);
+  if (!job) {
+    sendJson(res, 404, { error: { kind: 'unknown', message: "No such job. Finished jobs are removed after the retention period." } });
+    return;
+  }
+
+  const allowed = action ? 'GET' : 'GET, DELETE';
+  if (req.method !== 'GET' && !(req.method === 'DELETE' && !action)) {
+    sendJson(res, 405, { error: { kind: 'unknown', message: `Use ${allowed}.` } }, { Allow: allowed });
+    return;
+  }
+
+  switch (action) {
+    case undefined:
+      if (req.method === 'DELETE') {
+        if (isFinished(job)) {
+          queue.remove(job.id);
+          res.writeHead(204).end();
+        } else {
+          sendJson(res, 202, jobView(queue, queue.cancel(job.id)!));
+        }
+        return;
+      }
+      sendJson(res, 200, jobView(queue, job));
+      return;
+
+    case 'events':
+      streamEvents(req, res, queue, job);
+      return;
+
+    case 'result':
+      if (!isFinished(job)) {
+        sendJson(res, 409, { error: { kind: 'unknown', message: "The job has not finished yet." }, job: jobView(queue, job) });
+        return;
+      }
+      sendJson(res, 200, {
+        ...jobView(queue, job),
+        result: job.result && {
+          image: job.result.image,
+          verified: job.result.verified,
+          attempts: job.result.attempts,
+          source: job.result.source,
+          verification: job.result.verification,
+          attemptReports: job.result.attemptReports,
+          usage: job.result.usage ?? null,
+        },
+      });
+      return;
+
+    case 'image':
+      if (!job.result) {
+        sendJson(res, 404, { error: { kind: 'unknown', message: isFinished(job) ? "The job produced no image." : "The job has not finished yet." } });
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'image/png',
+        'Content-Disposition': `inline; filename="platemorph-${job.id}.png"`,
+        'Cache-Control': 'no-store',
+      });
+      res.end(Buffer.from(job.result.image.split(',')[1], 'base64'));
+      return;
+
+    default:
+      sendJson(res, 404, { error: { kind: 'unknown', message: `No endpoint at ${pathname}.` } });
+  }
+};
@@ -0,0 +1,57 @@
+export interface RateLimiterOptions {
+  /** Requests each client may make per window. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Wait until the next request would be allowed; 0 when this one was. */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets that have refilled completely carry no state, so they are dropped
+// once the map grows past this size.
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Token bucket per client. Each client may burst up to `limit` requests and
+ * then gets `limit` more spread over every `windowMs`.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / windowMs;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [client, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= limit) buckets.delete(client);
+    }
+  };
+
+  return {
+    take(client: string, now = Date.now()): RateLimitDecision {
+      if (buckets.size > PRUNE_THRESHOLD) prune(now);
+
+      const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+      refill(bucket, now);
+      buckets.set(client, bucket);
+
+      if (bucket.tokens < 1) {
+        return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
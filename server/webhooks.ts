@@ -0,0 +1,126 @@
+import { createHmac } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import { abortableDelay } from '../services/abort';
+import { backoffDelay } from '../services/errors';
+
+const MAX_ATTEMPTS = 4;
+const TIMEOUT_MS = 10_000;
+
+/**
+ * Addresses a webhook must not reach unless its host is allowlisted: loopback,
+ * private, link-local (which includes cloud metadata endpoints) and other
+ * non-public ranges.
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string, family: number) => {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host.
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/** Host name as DNS knows it, without the brackets around IPv6 literals. */
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+/**
+ * Throws unless the value is an absolute http(s) URL and, when `allowedHosts`
+ * is not empty, its host is one of them.
+ */
+export const assertWebhookUrl = (value: string, allowedHosts: string[] = []) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`"${value}" is not a valid URL.`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error("Webhook URLs must use http or https.");
+  }
+  if (allowedHosts.length > 0 && !allowedHosts.includes(hostOf(url))) {
+    throw new Error(`Webhooks may only be sent to ${allowedHosts.join(', ')}.`);
+  }
+};
+
+/**
+ * Resolves the URL's host and throws if any address it resolves to is
+ * loopback, private or link-local, so the server cannot be used to reach its
+ * own network. Allowlisted hosts are trusted as configured.
+ */
+export const assertWebhookTarget = async (value: string, allowedHosts: string[] = []) => {
+  assertWebhookUrl(value, allowedHosts);
+  const host = hostOf(new URL(value));
+  if (allowedHosts.includes(host)) return;
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new Error(`The webhook host ${host} could not be resolved.`);
+  }
+  if (addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+    throw new Error("Webhook URLs must not point at loopback, private or link-local addresses. Add the host to WEBHOOK_ALLOWED_HOSTS to allow it.");
+  }
+};
+
+export interface WebhookDeliveryOptions {
+  /** Signs the body with HMAC-SHA256 when set. */
+  secret?: string;
+  /** Hosts trusted even when they resolve to private addresses. */
+  allowedHosts?: string[];
+}
+
+/**
+ * POSTs the payload as JSON, retrying network errors, 429s and 5xx responses
+ * with backoff. With a secret, the body is signed with HMAC-SHA256 in the
+ * X-PlateMorph-Signature header. The target is checked again before every
+ * attempt, since the host's DNS may have changed since the job was queued.
+ * Resolves with whether delivery succeeded; it never throws, so a broken
+ * receiver cannot affect the job.
+ */
+export const deliverWebhook = async (url: string, event: string, payload: unknown, options: WebhookDeliveryOptions = {}): Promise<boolean> => {
+  const { secret, allowedHosts = [] } = options;
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'PlateMorph-Webhooks',
+    'X-PlateMorph-Event': event,
+  };
+  if (secret) {
+    headers['X-PlateMorph-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      await assertWebhookTarget(url, allowedHosts);
+    } catch (e: any) {
+      console.warn(`Webhook ${url} not sent: ${e?.message || e}`);
+      return false;
+    }
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(TIMEOUT_MS) });
+      if (response.ok) return true;
+      // Other client errors mean the receiver rejected the call; repeating it will not help.
+      if (response.status < 500 && response.status !== 429) {
+        console.warn(`Webhook ${url} rejected ${event} with status ${response.status}.`);
+        return false;
+      }
+      console.warn(`Webhook ${url} answered ${response.status} (attempt ${attempt}/${MAX_ATTEMPTS}).`);
+    } catch (e: any) {
+      console.warn(`Webhook ${url} failed (attempt ${attempt}/${MAX_ATTEMPTS}):`, e?.message || e);
+    }
+    if (attempt < MAX_ATTEMPTS) {
+      await abortableDelay(backoffDelay(attempt));
+    }
+  }
+  return false;
+};
@@ -0,0 +1,171 @@
+import { BatchJob } from '../types';
+import { createZip, ZipEntry } from './zip';
+
+export interface PlateCsvRow {
+  fileName?: string;
+  plateNumber: string;
+  plateCountry: string;
+}
+
+const HEADER_NAMES = ['file', 'filename', 'image', 'number', 'plate', 'platenumber', 'country', 'platecountry'];
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',' || ch === ';' || ch === '\t') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+/**
+ * Parses pasted plate assignments. Accepts either `number,country` or
+ * `filename,number,country` per line, with an optional header row.
+ */
+export const parsePlateCsv = (text: string): PlateCsvRow[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const rows: PlateCsvRow[] = [];
+
+  lines.forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const isHeader = index === 0 && cells.every(cell => HEADER_NAMES.includes(cell.toLowerCase().replace(/[\s_-]/g, '')));
+    if (isHeader) return;
+
+    if (cells.length >= 3) {
+      rows.push({ fileName: cells[0], plateNumber: cells[1].toUpperCase(), plateCountry: cells[2] });
+    } else if (cells.length === 2) {
+      rows.push({ plateNumber: cells[0].toUpperCase(), plateCountry: cells[1] });
+    }
+  });
+
+  return rows;
+};
+
+/**
+ * Applies parsed CSV rows to jobs. Rows with a file name are matched by name,
+ * the remaining rows are assigned to the remaining jobs in order.
+ */
+export const applyPlateCsv = (jobs: BatchJob[], rows: PlateCsvRow[]): BatchJob[] => {
+  const byName = new Map<string, PlateCsvRow>();
+  const ordered: PlateCsvRow[] = [];
+
+  for (const row of rows) {
+    if (row.fileName) {
+      byName.set(row.fileName.toLowerCase(), row);
+    } else {
+      ordered.push(row);
+    }
+  }
+
+  let nextOrdered = 0;
+  return jobs.map(job => {
+    const name = job.fileName.toLowerCase();
+    const baseName = name.split('/').pop() || name;
+    const row = byName.get(name) ?? byName.get(baseName) ?? ordered[nextOrdered++];
+    return row ? { ...job, plateNumber: row.plateNumber, plateCountry: row.plateCountry } : job;
+  });
+};
+
+/**
+ * Runs the worker over every item with at most `limit` in flight at once.
+ * Worker errors are the worker's responsibility; a rejection stops nothing else.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (e) {
+        console.error("Batch worker failed:", e);
+      }
+    }
+  });
+  await Promise.all(runners);
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1] || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const extensionFor = (dataUrl: string) => {
+  const mimeType = dataUrl.match(/data:([^;]+);/)?.[1] || 'image/png';
+  return mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1];
+};
+
+const outputNameFor = (job: BatchJob, usedNames: Set<string>) => {
+  const base = job.fileName.replace(/\.[^.]+$/, '').replace(/[\\/]/g, '_') || job.id;
+  const ext = extensionFor(job.result!.image);
+  let name = `${base}-plate.${ext}`;
+  for (let n = 2; usedNames.has(name); n++) {
+    name = `${base}-plate-${n}.${ext}`;
+  }
+  usedNames.add(name);
+  return name;
+};
+
+/**
+ * Packs every job with a result, including unverified ones, and a
+ * manifest.json describing all jobs into a ZIP.
+ */
+export const buildBatchZip = (jobs: BatchJob[]): Blob => {
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>(['manifest.json']);
+  const entries: ZipEntry[] = [];
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    jobs: jobs.map(job => {
+      const output = job.result ? outputNameFor(job, usedNames) : null;
+      if (job.result && output) {
+        entries.push({ name: output, data: dataUrlToBytes(job.result.image) });
+      }
+      return {
+        input: job.fileName,
+        output,
+        mode: job.mode,
+        plateNumber: job.plateNumber,
+        plateCountry: job.plateCountry,
+        status: job.status,
+        verified: job.result?.verified ?? false,
+        attempts: job.result?.attempts ?? 0,
+        ocrText: job.result?.verification?.ocrText ?? null,
+        similarity: job.result?.verification?.similarity ?? null,
+        error: job.error,
+      };
+    }),
+  };
+
+  entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
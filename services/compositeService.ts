@@ -0,0 +1,252 @@
+import { CompositeOptions, PlateQuad } from '../types';
+import { applyHomography, computeHomography, quadBounds, quadEdgeLengths, quadToPixels } from './geometry';
+import { getPlateTemplate, PlateTemplate } from './plateTemplates';
+
+// The plate graphic is rendered at this multiple of its on-photo size, then
+// resampled during the warp, which keeps the characters crisp.
+const SUPERSAMPLE = 2;
+
+export const DEFAULT_COMPOSITE_OPTIONS: CompositeOptions = {
+  blur: 0,
+  noise: 0,
+  matchLighting: true,
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for compositing."));
+    img.src = src;
+  });
+};
+
+/**
+ * Small seeded PRNG (mulberry32) so that noise is identical on every run.
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Draws the flat plate graphic for the given template and text.
+ */
+export const renderPlateGraphic = (plateNumber: string, template: PlateTemplate, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+
+  ctx.fillStyle = template.background;
+  ctx.fillRect(0, 0, width, height);
+
+  let textLeft = 0;
+  if (template.euBand) {
+    const bandWidth = Math.round(height * 0.42);
+    ctx.fillStyle = '#003399';
+    ctx.fillRect(0, 0, bandWidth, height);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${Math.round(height * 0.28)}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(template.euBand, bandWidth / 2, height * 0.88);
+    textLeft = bandWidth;
+  }
+
+  if (template.borderColor && template.borderWidth > 0) {
+    const lineWidth = Math.max(1, Math.round(height * template.borderWidth));
+    ctx.strokeStyle = template.borderColor;
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(lineWidth / 2, lineWidth / 2, width - lineWidth, height - lineWidth);
+  }
+
+  const padding = height * 0.12;
+  const available = width - textLeft - padding * 2;
+  let fontSize = Math.round(height * 0.72);
+  ctx.fillStyle = template.textColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold ${fontSize}px ${template.fontFamily}`;
+  const measured = ctx.measureText(plateNumber).width;
+  if (measured > available) {
+    fontSize = Math.floor(fontSize * available / measured);
+    ctx.font = `bold ${fontSize}px ${template.fontFamily}`;
+  }
+  ctx.fillText(plateNumber, textLeft + (width - textLeft) / 2, height / 2 + fontSize * 0.04);
+
+  return canvas;
+};
+
+/**
+ * Separable box blur over an RGBA buffer, alpha included, so plate edges soften too.
+ */
+export const boxBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const r = Math.round(radius);
+  if (r < 1) return;
+  const temp = new Float32Array(data.length);
+  const size = r * 2 + 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) {
+          const xx = Math.min(width - 1, Math.max(0, x + k));
+          sum += data[(y * width + xx) * 4 + c];
+        }
+        temp[(y * width + x) * 4 + c] = sum / size;
+      }
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        let sum = 0;
+        for (let k = -r; k <= r; k++) {
+          const yy = Math.min(height - 1, Math.max(0, y + k));
+          sum += temp[(yy * width + x) * 4 + c];
+        }
+        data[(y * width + x) * 4 + c] = sum / size;
+      }
+    }
+  }
+};
+
+/**
+ * Average color of the photo under the quad's bounding box. Used as a rough
+ * estimate of the light falling on the bumper.
+ */
+const averageColor = (data: Uint8ClampedArray) => {
+  let r = 0, g = 0, b = 0;
+  const count = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+  }
+  return { r: r / count, g: g / count, b: b / count };
+};
+
+/**
+ * Renders the plate locally and warps it onto the quad. No model is involved,
+ * so the same inputs always produce the same pixels.
+ */
+export const compositePlate = async (
+  imageBase64: string,
+  plateNumber: string,
+  plateCountry: string,
+  region: PlateQuad,
+  options: CompositeOptions = DEFAULT_COMPOSITE_OPTIONS
+): Promise<string> => {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    throw new Error("Composite rendering requires a browser canvas.");
+  }
+
+  const img = await loadImage(imageBase64);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const quad = quadToPixels(region, canvas.width, canvas.height);
+  const bounds = quadBounds(quad, canvas.width, canvas.height);
+  if (bounds.width < 2 || bounds.height < 2) {
+    throw new Error("The marked plate area is too small to render a plate.");
+  }
+
+  const template = getPlateTemplate(plateCountry);
+  const edges = quadEdgeLengths(quad);
+  const plateWidth = Math.max(8, Math.round(edges.width * SUPERSAMPLE));
+  const plateHeight = Math.max(4, Math.round(plateWidth / template.aspectRatio));
+  const plate = renderPlateGraphic(plateNumber, template, plateWidth, plateHeight);
+  const plateData = plate.getContext('2d')!.getImageData(0, 0, plateWidth, plateHeight).data;
+
+  // Map photo pixels back into plate space so every target pixel is sampled exactly once.
+  const toPlate = computeHomography(quad, [
+    { x: 0, y: 0 },
+    { x: plateWidth, y: 0 },
+    { x: plateWidth, y: plateHeight },
+    { x: 0, y: plateHeight },
+  ]);
+
+  const layer = new Uint8ClampedArray(bounds.width * bounds.height * 4);
+  for (let y = 0; y < bounds.height; y++) {
+    for (let x = 0; x < bounds.width; x++) {
+      const p = applyHomography(toPlate, bounds.left + x + 0.5, bounds.top + y + 0.5);
+      const sx = p.x - 0.5;
+      const sy = p.y - 0.5;
+      if (p.x < 0 || p.y < 0 || p.x >= plateWidth || p.y >= plateHeight) continue;
+
+      const x0 = Math.max(0, Math.floor(sx));
+      const y0 = Math.max(0, Math.floor(sy));
+      const x1 = Math.min(plateWidth - 1, x0 + 1);
+      const y1 = Math.min(plateHeight - 1, y0 + 1);
+      const fx = Math.min(1, Math.max(0, sx - x0));
+      const fy = Math.min(1, Math.max(0, sy - y0));
+      const out = (y * bounds.width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const top = plateData[(y0 * plateWidth + x0) * 4 + c] * (1 - fx) + plateData[(y0 * plateWidth + x1) * 4 + c] * fx;
+        const bottom = plateData[(y1 * plateWidth + x0) * 4 + c] * (1 - fx) + plateData[(y1 * plateWidth + x1) * 4 + c] * fx;
+        layer[out + c] = top * (1 - fy) + bottom * fy;
+      }
+      layer[out + 3] = 255;
+    }
+  }
+
+  const photo = ctx.getImageData(bounds.left, bounds.top, bounds.width, bounds.height);
+
+  if (options.matchLighting) {
+    // A clean plate reads as near-white; scale it to the brightness of the area it covers.
+    const ambient = averageColor(photo.data);
+    const luminance = 0.299 * ambient.r + 0.587 * ambient.g + 0.114 * ambient.b;
+    const gain = Math.min(1.05, Math.max(0.35, luminance / 170));
+    const tint = [ambient.r, ambient.g, ambient.b].map(v => v / Math.max(1, luminance));
+    for (let i = 0; i < layer.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        layer[i + c] = layer[i + c] * gain * (0.85 + 0.15 * tint[c]);
+      }
+    }
+  }
+
+  boxBlur(layer, bounds.width, bounds.height, options.blur);
+
+  if (options.noise > 0) {
+    const random = createRandom(hashString(`${plateNumber}|${plateCountry}|${bounds.left},${bounds.top}`));
+    for (let i = 0; i < layer.length; i += 4) {
+      const delta = (random() - 0.5) * 2 * options.noise;
+      for (let c = 0; c < 3; c++) {
+        layer[i + c] = layer[i + c] + delta;
+      }
+    }
+  }
+
+  for (let i = 0; i < layer.length; i += 4) {
+    const alpha = layer[i + 3] / 255;
+    if (alpha === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      photo.data[i + c] = layer[i + c] * alpha + photo.data[i + c] * (1 - alpha);
+    }
+  }
+  ctx.putImageData(photo, bounds.left, bounds.top);
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,154 @@
+import { BoundingBox, ChangeReport } from '../types';
+import { padBox } from './geometry';
+
+/** Longest side, in pixels, of the images compared. Small enough to be fast, large enough to see repainting. */
+const ANALYSIS_SIZE = 512;
+/** Largest per-channel difference (0..255) still treated as noise, e.g. from re-encoding. */
+const PIXEL_THRESHOLD = 40;
+/** Fraction of the image outside the plate that may change before an attempt is rejected. */
+export const MAX_CHANGED_FRACTION = 0.04;
+/** Margin added around each plate area, as a fraction of its size, for shadows and mounting. */
+const EXCLUDE_PADDING = 0.5;
+/** Window used to find the plate from the changes themselves when its area is unknown. */
+const SEARCH_WINDOW = { width: 0.3, height: 0.2 };
+
+export interface ChangeAnalysis {
+  report: ChangeReport;
+  /** PNG data URL, same aspect ratio as the reference, transparent where nothing changed. */
+  heatmap: string;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for change detection."));
+    img.src = src;
+  });
+};
+
+const readPixels = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas is not available for change detection.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Finds the window with the most changed pixels, using a summed-area table.
+ * This is where the plate most likely went when nothing told us.
+ */
+const densestWindow = (changed: Uint8Array, width: number, height: number): BoundingBox | null => {
+  const windowWidth = Math.max(1, Math.round(width * SEARCH_WINDOW.width));
+  const windowHeight = Math.max(1, Math.round(height * SEARCH_WINDOW.height));
+  const stride = width + 1;
+  const sums = new Int32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += changed[y * width + x];
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + row;
+    }
+  }
+
+  let best = 0;
+  let bestX = 0;
+  let bestY = 0;
+  for (let y = 0; y + windowHeight <= height; y++) {
+    for (let x = 0; x + windowWidth <= width; x++) {
+      const count = sums[(y + windowHeight) * stride + x + windowWidth] - sums[y * stride + x + windowWidth]
+        - sums[(y + windowHeight) * stride + x] + sums[y * stride + x];
+      if (count > best) {
+        best = count;
+        bestX = x;
+        bestY = y;
+      }
+    }
+  }
+  if (best === 0) return null;
+  return { x: bestX / width, y: bestY / height, width: windowWidth / width, height: windowHeight / height };
+};
+
+/**
+ * Compares the generated image with the reference outside the plate areas.
+ * With no plate areas, the densest cluster of changes is assumed to be the plate.
+ * Returns null outside a browser, where the check is skipped.
+ */
+export const analyzeChanges = async (
+  referenceImage: string,
+  generatedImage: string,
+  plateAreas: BoundingBox[]
+): Promise<ChangeAnalysis | null> => {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return null;
+  }
+
+  const [reference, generated] = await Promise.all([loadImage(referenceImage), loadImage(generatedImage)]);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(reference.naturalWidth, reference.naturalHeight));
+  const width = Math.max(1, Math.round(reference.naturalWidth * scale));
+  const height = Math.max(1, Math.round(reference.naturalHeight * scale));
+  // Both are drawn at the reference size, so a model output of another size is compared as if scaled back.
+  const a = readPixels(reference, width, height);
+  const b = readPixels(generated, width, height);
+
+  const deltas = new Uint8Array(width * height);
+  const changed = new Uint8Array(width * height);
+  for (let i = 0; i < deltas.length; i++) {
+    const p = i * 4;
+    const delta = Math.max(Math.abs(a[p] - b[p]), Math.abs(a[p + 1] - b[p + 1]), Math.abs(a[p + 2] - b[p + 2]));
+    deltas[i] = delta;
+    changed[i] = delta > PIXEL_THRESHOLD ? 1 : 0;
+  }
+
+  const found = plateAreas.length > 0 ? plateAreas : [densestWindow(changed, width, height)].filter((box): box is BoundingBox => box !== null);
+  const excluded = found.map(box => padBox(box, EXCLUDE_PADDING));
+  const isExcluded = (x: number, y: number) => excluded.some(box => {
+    const nx = (x + 0.5) / width;
+    const ny = (y + 0.5) / height;
+    return nx >= box.x && nx <= box.x + box.width && ny >= box.y && ny <= box.y + box.height;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas is not available for change detection.");
+  }
+  const heatmap = ctx.createImageData(width, height);
+  const out = heatmap.data;
+
+  let compared = 0;
+  let changedOutside = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+      if (isExcluded(x, y)) {
+        // Faint blue marks the area that was ignored.
+        out[p] = 99; out[p + 1] = 102; out[p + 2] = 241; out[p + 3] = 40;
+        continue;
+      }
+      compared++;
+      changedOutside += changed[i];
+      if (deltas[i] > PIXEL_THRESHOLD / 2) {
+        // Yellow for small changes, shading to red for large ones.
+        const t = Math.min(1, (deltas[i] - PIXEL_THRESHOLD / 2) / 128);
+        out[p] = 255; out[p + 1] = Math.round(220 * (1 - t)); out[p + 2] = 0; out[p + 3] = Math.round(90 + 130 * t);
+      }
+    }
+  }
+  ctx.putImageData(heatmap, 0, 0);
+
+  const score = compared > 0 ? changedOutside / compared : 0;
+  return {
+    report: { score, threshold: MAX_CHANGED_FRACTION, passed: score <= MAX_CHANGED_FRACTION, excluded: found },
+    heatmap: canvas.toDataURL('image/png'),
+  };
+};
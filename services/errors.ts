@@ -0,0 +1,212 @@
+import { ErrorNotice, GenerationResult, PlateErrorKind } from '../types';
+
+/**
+ * Base class for every failure the generation pipeline reports on purpose.
+ * `retryable` tells the retry loop whether another attempt can help.
+ */
+export class PlateMorphError extends Error {
+  readonly kind: PlateErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: PlateErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PlateMorphError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingApiKeyError extends PlateMorphError {
+  constructor(message = "API Key is missing in environment variables.", options?: { cause?: unknown }) {
+    super('missing-key', message, false, options);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class RateLimitError extends PlateMorphError {
+  /** Server-suggested wait before retrying, when it sent one. */
+  readonly retryAfterMs: number | null;
+
+  constructor(message = "The model is rate limited.", retryAfterMs: number | null = null, options?: { cause?: unknown }) {
+    super('rate-limited', message, true, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServiceUnavailableError extends PlateMorphError {
+  constructor(message = "The model service is temporarily unavailable.", options?: { cause?: unknown }) {
+    super('service-unavailable', message, true, options);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class SafetyBlockedError extends PlateMorphError {
+  constructor(message = "The request was blocked by the model's safety filters.", options?: { cause?: unknown }) {
+    super('safety-blocked', message, false, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageReturnedError extends PlateMorphError {
+  constructor(message = "No image was returned by the model.", options?: { cause?: unknown }) {
+    super('no-image', message, true, options);
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class VerificationFailedError extends PlateMorphError {
+  /** Best result produced, for callers that want to show it anyway. */
+  readonly result: GenerationResult;
+
+  constructor(result: GenerationResult, message = "None of the generated images contained a readable plate.") {
+    super('verification-failed', message, false);
+    this.name = 'VerificationFailedError';
+    this.result = result;
+  }
+}
+
+export class PlateDetectedError extends PlateMorphError {
+  constructor(message = "A license plate is already present on this car.") {
+    super('plate-detected', message, false);
+    this.name = 'PlateDetectedError';
+  }
+}
+
+export class UnsupportedInputError extends PlateMorphError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('unsupported-input', message, false, options);
+    this.name = 'UnsupportedInputError';
+  }
+}
+
+/** Thrown before a run when it could take the session past a blocking budget. */
+export class BudgetExceededError extends PlateMorphError {
+  constructor(message = "This run would exceed the usage budget.") {
+    super('budget-exceeded', message, false);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const parseRetryAfter = (message: string): number | null => {
+  const match = message.match(/retry(?:Delay| in| after)["':\s]*([\d.]+)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : null;
+};
+
+/**
+ * Maps any thrown value (SDK errors, fetch failures, plain Errors) onto the taxonomy.
+ * Abort errors are returned untouched so cancellation keeps its own identity.
+ */
+export const classifyError = (e: unknown): Error => {
+  if (e instanceof PlateMorphError) return e;
+  if (typeof e === 'object' && e !== null && (e as { name?: string }).name === 'AbortError') return e as Error;
+
+  const message = e instanceof Error ? e.message : String(e);
+  const status = typeof e === 'object' && e !== null ? (e as { status?: unknown }).status : undefined;
+  const options = { cause: e };
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return new RateLimitError(message, parseRetryAfter(message), options);
+  }
+  if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message) || status === 401 || status === 403) {
+    return new MissingApiKeyError("The API key is missing or invalid.", options);
+  }
+  if ((typeof status === 'number' && status >= 500) || /UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|overloaded|fetch failed|network/i.test(message)) {
+    return new ServiceUnavailableError(message, options);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message)) {
+    return new SafetyBlockedError(message, options);
+  }
+  return e instanceof Error ? e : new Error(message);
+};
+
+/** How the API server reports a failure in its JSON responses. */
+export interface SerializedError {
+  kind: PlateErrorKind;
+  message: string;
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Converts an error into its JSON form. Unclassified errors are reported as
+ * 'unknown' without their message, which may contain server internals.
+ */
+export const serializeError = (e: unknown): SerializedError => {
+  if (!(e instanceof PlateMorphError)) {
+    return { kind: 'unknown', message: "The API server hit an unexpected error." };
+  }
+  return {
+    kind: e.kind,
+    message: e.message,
+    ...(e instanceof RateLimitError ? { retryAfterMs: e.retryAfterMs } : {}),
+  };
+};
+
+/**
+ * Rebuilds the error class for a serialized error so retry logic and the UI
+ * treat it exactly like one thrown locally.
+ */
+export const deserializeError = (payload: SerializedError): PlateMorphError => {
+  const { kind, message } = payload;
+  switch (kind) {
+    case 'missing-key':
+      return new MissingApiKeyError(message);
+    case 'rate-limited':
+      return new RateLimitError(message, payload.retryAfterMs ?? null);
+    case 'service-unavailable':
+      return new ServiceUnavailableError(message);
+    case 'safety-blocked':
+      return new SafetyBlockedError(message);
+    case 'no-image':
+      return new NoImageReturnedError(message);
+    case 'plate-detected':
+      return new PlateDetectedError(message);
+    case 'unsupported-input':
+      return new UnsupportedInputError(message);
+    case 'budget-exceeded':
+      return new BudgetExceededError(message);
+    default:
+      return new PlateMorphError(kind in SUGGESTED_ACTIONS ? kind : 'unknown', message, false);
+  }
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 16000;
+
+/**
+ * Exponential backoff with full jitter. A server-provided retry delay wins when it is longer.
+ */
+export const backoffDelay = (attempt: number, retryAfterMs: number | null = null): number => {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  const jittered = Math.random() * ceiling;
+  return retryAfterMs !== null ? Math.max(retryAfterMs, jittered) : jittered;
+};
+
+/** Errors worth waiting out before the next attempt. */
+export const isTransientError = (error: unknown) =>
+  error instanceof PlateMorphError && (error.kind === 'rate-limited' || error.kind === 'service-unavailable');
+
+export const getErrorKind = (e: unknown): PlateErrorKind =>
+  e instanceof PlateMorphError ? e.kind : 'unknown';
+
+const SUGGESTED_ACTIONS: Record<PlateErrorKind, string | null> = {
+  'missing-key': "Set GEMINI_API_KEY in .env.local and restart the API server (npm run server), or set IMAGE_PROVIDER=mock to work offline.",
+  'rate-limited': "Wait a minute and try again, or lower the number of parallel jobs.",
+  'service-unavailable': "The model service is having trouble. Try again in a few moments.",
+  'safety-blocked': "Try a different photo or plate text. Images with people in focus are more likely to be blocked.",
+  'no-image': "Try again. If it keeps happening, mark the plate area to give the model a clearer task.",
+  'verification-failed': "Mark the plate area on the image, or switch to Composite mode to render the plate locally.",
+  'plate-detected': "Switch to Replace mode, or confirm to add a plate anyway.",
+  'unsupported-input': "Upload a different image, e.g. a JPEG photo with a solid background.",
+  'budget-exceeded': "Raise the budget or reset the session total in the Session Usage panel, or lower the number of variants.",
+  'unknown': null,
+};
+
+/**
+ * Turns any error into the message and suggested next step shown in the UI.
+ */
+export const toErrorNotice = (e: unknown): ErrorNotice => {
+  const kind = getErrorKind(e);
+  const message = e instanceof Error && e.message ? e.message : "An unexpected error occurred.";
+  return { kind, message, action: SUGGESTED_ACTIONS[kind] };
+};
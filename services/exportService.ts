@@ -0,0 +1,296 @@
+import { ExportFormat, ExportSettings, PlateMode } from '../types';
+import { crc32 } from './zip';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.92,
+  fileNamePattern: 'platemorph-{plate}-{date}-{time}',
+  embedMetadata: true,
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+const SOFTWARE = 'PlateMorph';
+
+/** What the exported file says about how it was made. */
+export interface ProvenanceMetadata {
+  plateNumber: string;
+  plateCountry: string;
+  mode: PlateMode;
+  /** 'composite' images were drawn locally rather than by the model. */
+  source: 'model' | 'composite';
+  createdAt: Date;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const describeProvenance = (metadata: ProvenanceMetadata) => {
+  if (metadata.mode === 'redact') {
+    const how = metadata.source === 'composite' ? 'License plates obscured locally' : 'AI-edited image, license plates removed';
+    return `${how} (${SOFTWARE}, redact mode). Edited: ${metadata.createdAt.toISOString()}.`;
+  }
+  const how = metadata.source === 'composite' ? 'Plate rendered locally' : 'AI-edited image';
+  return `${how} (${SOFTWARE}, ${metadata.mode} mode). Plate: ${metadata.plateNumber} (${metadata.plateCountry}). Edited: ${metadata.createdAt.toISOString()}.`;
+};
+
+/**
+ * Expands the placeholders in a file name pattern and appends the extension.
+ * Characters that are unsafe in file names are replaced with dashes.
+ */
+export const formatExportFileName = (pattern: string, metadata: ProvenanceMetadata, format: ExportFormat): string => {
+  const date = metadata.createdAt;
+  const values: Record<string, string> = {
+    plate: metadata.plateNumber,
+    country: metadata.plateCountry,
+    mode: metadata.mode,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+  const expanded = (pattern || DEFAULT_EXPORT_SETTINGS.fileNamePattern)
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key.toLowerCase()] ?? match);
+  const safe = expanded
+    .replace(/[^\p{L}\p{N}._-]+/gu, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  return `${safe || 'platemorph'}.${EXTENSIONS[format]}`;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Builds a PNG iTXt chunk, which unlike tEXt allows UTF-8 text.
+ */
+const pngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  // keyword \0 compression-flag compression-method language-tag \0 translated-keyword \0 text
+  const data = concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+  const typeAndData = concatBytes([encoder.encode('iTXt'), data]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+};
+
+/**
+ * Inserts text chunks right after IHDR, so readers that stop early still see them.
+ */
+export const embedPngText = (png: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  const ihdrEnd = 8 + 8 + new DataView(png.buffer, png.byteOffset).getUint32(8) + 4;
+  const chunks = Object.entries(entries).map(([keyword, text]) => pngTextChunk(keyword, text));
+  return concatBytes([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)]);
+};
+
+/**
+ * Builds a little-endian TIFF block holding IFD0 with ImageDescription,
+ * Software and DateTime. EXIF specifies ASCII for these tags; the text is
+ * written as UTF-8, which common readers display correctly.
+ */
+const buildExifTiff = (description: string, date: Date): Uint8Array => {
+  const encoder = new TextEncoder();
+  const dateTime = `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  const tags: [number, Uint8Array][] = [
+    [0x010e, encoder.encode(`${description}\0`)],
+    [0x0131, encoder.encode(`${SOFTWARE}\0`)],
+    [0x0132, encoder.encode(`${dateTime}\0`)],
+  ];
+
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const dataStart = 8 + ifdSize;
+  const total = dataStart + tags.reduce((sum, [, value]) => sum + (value.length > 4 ? value.length : 0), 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+
+  out.set([0x49, 0x49], 0); // "II": little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, tags.length, true);
+
+  let dataOffset = dataStart;
+  tags.forEach(([tag, value], index) => {
+    const entry = 10 + index * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, 2, true); // ASCII
+    view.setUint32(entry + 4, value.length, true);
+    if (value.length <= 4) {
+      out.set(value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      out.set(value, dataOffset);
+      dataOffset += value.length;
+    }
+  });
+  // The next-IFD offset after the entries stays 0: there is only one IFD.
+  return out;
+};
+
+/**
+ * Inserts an APP1 Exif segment after SOI and any APP0 (JFIF) segment.
+ */
+export const embedJpegExif = (jpeg: Uint8Array, tiff: Uint8Array): Uint8Array => {
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  const payload = concatBytes([new TextEncoder().encode('Exif\0\0'), tiff]);
+  const header = new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  return concatBytes([jpeg.subarray(0, insertAt), header, payload, jpeg.subarray(insertAt)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2 === 1;
+  const chunk = new Uint8Array(8 + data.length + (padded ? 1 : 0));
+  chunk.set(new TextEncoder().encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+/**
+ * Adds an EXIF chunk to a WebP file. Simple (VP8/VP8L) files are first
+ * converted to the extended format, which is the only one that carries metadata.
+ */
+export const embedWebpExif = (webp: Uint8Array, tiff: Uint8Array, width: number, height: number): Uint8Array => {
+  const decoder = new TextDecoder();
+  const firstChunk = decoder.decode(webp.subarray(12, 16));
+  let body: Uint8Array;
+
+  if (firstChunk === 'VP8X') {
+    body = webp.slice(12);
+    body[8] |= 0x08; // EXIF flag
+  } else {
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x08;
+    const view = new DataView(vp8x.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    vp8x[6] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    vp8x[9] = ((height - 1) >> 16) & 0xff;
+    body = concatBytes([riffChunk('VP8X', vp8x), webp.subarray(12)]);
+  }
+
+  const content = concatBytes([new TextEncoder().encode('WEBP'), body, riffChunk('EXIF', tiff)]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'), 0);
+  new DataView(header.buffer).setUint32(4, content.length, true);
+  return concatBytes([header, content]);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for export."));
+    img.src = src;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob && blob.type === mimeType) {
+        resolve(blob);
+      } else {
+        reject(new Error(`This browser cannot save ${mimeType.split('/')[1].toUpperCase()} images. Choose another format.`));
+      }
+    }, mimeType, quality);
+  });
+};
+
+/**
+ * Adds the provenance record to an already encoded image. The width and height
+ * are only needed for WebP, whose extended header stores them.
+ */
+export const embedProvenance = (
+  bytes: Uint8Array,
+  format: ExportFormat,
+  metadata: ProvenanceMetadata,
+  width: number,
+  height: number
+): Uint8Array => {
+  const description = describeProvenance(metadata);
+  if (format === 'png') {
+    return embedPngText(bytes, {
+      Software: SOFTWARE,
+      Description: description,
+      'Creation Time': metadata.createdAt.toISOString(),
+      'platemorph:provenance': JSON.stringify({
+        aiEdited: metadata.source === 'model',
+        plateNumber: metadata.plateNumber,
+        plateCountry: metadata.plateCountry,
+        mode: metadata.mode,
+        source: metadata.source,
+        createdAt: metadata.createdAt.toISOString(),
+      }),
+    });
+  }
+  const tiff = buildExifTiff(description, metadata.createdAt);
+  return format === 'jpeg' ? embedJpegExif(bytes, tiff) : embedWebpExif(bytes, tiff, width, height);
+};
+
+/**
+ * Re-encodes the image in the chosen format and, if enabled, embeds the provenance record.
+ */
+export const exportImage = async (
+  imageBase64: string,
+  settings: ExportSettings,
+  metadata: ProvenanceMetadata
+): Promise<Blob> => {
+  const img = await loadImage(imageBase64);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas is not available for export.");
+  }
+  if (settings.format === 'jpeg') {
+    // JPEG has no alpha; without a fill, transparent pixels turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const mimeType = MIME_TYPES[settings.format];
+  const blob = await canvasToBlob(canvas, mimeType, settings.quality);
+  if (!settings.embedMetadata) {
+    return blob;
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const tagged = embedProvenance(bytes, settings.format, metadata, canvas.width, canvas.height);
+  return new Blob([tagged], { type: mimeType });
+};
+
+/**
+ * Saves a blob through a temporary object URL.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,26 +1,113 @@
-import { GoogleGenAI } from "@google/genai";
+import { getImageProvider, ImageModelProvider } from './providers';
+import { compositePlate } from './compositeService';
+import { findPlateFormat } from './plateFormats';
+import { buildEditPrompt, buildFollowUpPrompt, DEFAULT_PLATE_STYLE, isWorn } from './promptTemplates';
+import { alignPlateText, normalizePlateText } from './verification';
+import { abortableDelay, createAbortError, isAbortError, throwIfAborted } from './abort';
+import {
+  backoffDelay,
+  BudgetExceededError,
+  classifyError,
+  isTransientError,
+  PlateDetectedError,
+  PlateMorphError,
+  RateLimitError,
+  UnsupportedInputError,
+  VerificationFailedError,
+} from './errors';
+import { boxToQuad, padBox } from './geometry';
+import { canCropAndStitch, createEditCrop, cropImage, quadToBox, quadToCrop, stitchCrop } from './stitchService';
+import { analyzeChanges, ChangeAnalysis } from './diffService';
+import { redactPlates } from './redactionService';
+import { checkBudget, createUsageMeter, recordSessionUsage, TYPICAL_CALL_USD } from './usageService';
+import { cacheKey, readCache, writeCache } from './resultCache';
+import {
+  BoundingBox,
+  CompositeOptions,
+  DetectedVehicle,
+  GenerationCandidate,
+  GenerationResult,
+  PlateCheck,
+  PlateMode,
+  PlatePlacement,
+  PlatePosition,
+  PlateQuad,
+  PlateResult,
+  PlateSpec,
+  PlateStyle,
+  RedactionMethod,
+  VehicleTarget,
+  VerificationReport,
+} from '../types';
 
-// Ensure API Key is available
-const apiKey = process.env.API_KEY;
-const ai = new GoogleGenAI({ apiKey: apiKey || '' });
-
-const cleanText = (text: string) => text.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+export interface GeneratePlateOptions {
+  /** Skip the existing-plate check in 'add' mode. */
+  skipDetection?: boolean;
+  /** User-drawn plate area. When set, the edit is constrained to it. */
+  region?: PlateQuad | null;
+  /** Settings for local rendering in 'composite' mode or as a fallback. */
+  compositeOptions?: CompositeOptions;
+  /** Render the plate locally into `region` if no AI attempt passes verification. */
+  compositeFallback?: boolean;
+  /**
+   * Which plates to produce. 'both' adds or replaces the front plate with the
+   * plate number and country arguments and the rear plate with `rearPlate`.
+   * Defaults to 'auto'. Ignored when `targets` is set and in 'composite' mode.
+   */
+  placement?: PlatePlacement;
+  /** Rear plate used when `placement` is 'both'. */
+  rearPlate?: PlateSpec;
+  /**
+   * Vehicles to edit, each with its own plate. When set, the plate number,
+   * country and region arguments are ignored and only these vehicles change.
+   */
+  targets?: VehicleTarget[];
+  /**
+   * Send only a padded crop around the plate area to the model and blend the
+   * result back into the original, leaving everything else untouched. Defaults to
+   * true; has no effect outside a browser, where there is no canvas to crop with.
+   */
+  cropAndStitch?: boolean;
+  /** How every plate is hidden in 'redact' mode. Defaults to 'blur'. */
+  redaction?: RedactionMethod;
+  /** Kind, condition, frame and lettering of model-generated plates. Ignored in 'composite' and 'redact' mode. */
+  plateStyle?: PlateStyle;
+  /**
+   * Edits sent to the model at the same time for each plate, up to MAX_VARIANTS.
+   * Every output is scored, and for a single plate the result lists them all,
+   * ranked, in `candidates`. Defaults to 1, which tries one edit at a time.
+   */
+  variants?: number;
+  /** Skip cached detections and results and call the model again. Fresh answers replace the cached ones. */
+  forceFresh?: boolean;
+  /** Cancels the run. Every stage stops at its next check and the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
 
 /**
  * Preprocesses the image to ensure compatibility.
  * Scans for transparency and throws an error if found.
  * Converts valid images to JPEG.
  */
-const preprocessImage = (base64Str: string): Promise<string> => {
+const preprocessImage = (base64Str: string, signal?: AbortSignal): Promise<string> => {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(createAbortError());
+    }
     if (typeof window === 'undefined' || typeof document === 'undefined') {
       return resolve(base64Str);
     }
 
     const img = new Image();
     img.crossOrigin = "anonymous";
-    
+
+    const onAbort = () => {
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     img.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
       try {
         const canvas = document.createElement('canvas');
         canvas.width = img.width;
@@ -40,7 +127,7 @@ const preprocessImage = (base64Str: string): Promise<string> => {
           
           for (let i = 3; i < data.length; i += 16) {
             if (data[i] < 250) {
-              reject(new Error("Transparent images are not supported due to rendering bugs. Please upload an image with a solid background."));
+              reject(new UnsupportedInputError("Transparent images are not supported due to rendering bugs. Please upload an image with a solid background."));
               return;
             }
           }
@@ -57,6 +144,7 @@ const preprocessImage = (base64Str: string): Promise<string> => {
     };
     
     img.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
       console.warn("Failed to load image for preprocessing, falling back to original");
       resolve(base64Str);
     };
@@ -66,179 +154,742 @@ const preprocessImage = (base64Str: string): Promise<string> => {
 };
 
 /**
- * Checks if the car already has a visible license plate.
+ * Scales the model output back to the exact pixel size of the original upload.
+ * If the aspect ratio drifted, the output is scaled to cover and centred, which
+ * matches how the model reframes images. Returns a lossless PNG.
+ */
+const restoreOriginalSize = (imageBase64: string, originalBase64: string, signal?: AbortSignal): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(createAbortError());
+    }
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      return resolve(imageBase64);
+    }
+
+    const result = new Image();
+    const original = new Image();
+    let loaded = 0;
+
+    const onLoad = () => {
+      if (++loaded < 2) return;
+      const width = original.naturalWidth;
+      const height = original.naturalHeight;
+      if (result.naturalWidth === width && result.naturalHeight === height) {
+        resolve(imageBase64);
+        return;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(imageBase64);
+        return;
+      }
+      const scale = Math.max(width / result.naturalWidth, height / result.naturalHeight);
+      const drawWidth = result.naturalWidth * scale;
+      const drawHeight = result.naturalHeight * scale;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(result, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    const onError = () => {
+      console.warn("Could not restore original resolution, keeping model output size");
+      resolve(imageBase64);
+    };
+
+    result.onload = onLoad;
+    original.onload = onLoad;
+    result.onerror = onError;
+    original.onerror = onError;
+    result.src = imageBase64;
+    original.src = originalBase64;
+  });
+};
+
+/**
+ * Checks if the car already has a visible license plate, optionally at one end only.
+ * The answer never changes for an image, so it is cached.
  */
-const checkForExistingPlate = async (imageBase64: string): Promise<boolean> => {
+const checkForExistingPlate = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  position: PlatePosition | null,
+  forceFresh: boolean,
+  signal?: AbortSignal
+): Promise<boolean> => {
   try {
-    const base64Data = imageBase64.split(',')[1];
-    const mimeType = imageBase64.match(/data:([^;]+);/)?.[1] || 'image/jpeg';
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: "Analyze the front and rear bumpers of the car in this image. Look specifically for an oblong, rectangular, or square object mounted on the bumper where a license plate is typically found. Is there a license plate present? Answer strictly with YES or NO.",
-          },
-        ],
-      },
-    });
-
-    const text = response.text?.trim().toUpperCase() || '';
-    return text.includes('YES');
+    const key = await cacheKey('plate-detection', imageBase64, { provider: provider.name, position });
+    const cached = forceFresh ? null : await readCache<boolean>(key);
+    if (cached !== null) return cached;
+
+    const hasPlate = await provider.detectPlate(imageBase64, { signal, position: position ?? undefined });
+    await writeCache('plate-detection', key, hasPlate);
+    return hasPlate;
   } catch (e) {
+    if (isAbortError(e)) throw e;
     console.warn("Failed to check for existing plate:", e);
     return false;
   }
 };
 
 /**
- * Verifies if the generated image contains the correct plate number.
+ * Reads the plate in the generated image and scores it against the expected number.
+ * A result passes only when the expected text was read exactly, or up to
+ * lookalike characters when `lookalikes` is set for worn plates.
  */
-const verifyPlateContent = async (imageBase64: string, expectedNumber: string): Promise<boolean> => {
+const verifyPlateContent = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  expectedNumber: string,
+  attempt: number,
+  position: PlatePosition | null,
+  lookalikes: boolean,
+  signal?: AbortSignal
+): Promise<VerificationReport> => {
+  const expected = normalizePlateText(expectedNumber);
+  const positionField = position ? { position } : {};
+
   try {
-    const base64Data = imageBase64.split(',')[1];
-    const mimeType = imageBase64.match(/data:([^;]+);/)?.[1] || 'image/png';
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: "Read the license plate text from this car. Return ONLY the alphanumeric characters found on the plate. Ignore country names, slogans, or small print.",
-          },
-        ],
-      },
-    });
-
-    const ocrText = response.text ? cleanText(response.text) : '';
-    const expected = cleanText(expectedNumber);
-    
-    console.log(`[Verification] Expected: ${expected}, Found: ${ocrText}`);
-    
-    return ocrText.includes(expected) || (expected.includes(ocrText) && ocrText.length > expected.length * 0.8);
-  } catch (e) {
+    const rawText = await provider.readPlateText(imageBase64, { signal, position: position ?? undefined });
+    const { distance, similarity, mismatches, matched } = alignPlateText(expected, rawText, { lookalikes });
+    // Nothing to compare against can never count as a match.
+    return { attempt, ocrText: matched, expected, distance, similarity, mismatches, passed: expected.length > 0 && distance === 0, ...positionField };
+  } catch (e: any) {
+    if (isAbortError(e)) throw e;
     console.warn("Verification failed, assuming imperfect generation:", e);
-    return false;
+    return {
+      attempt,
+      ocrText: '',
+      expected,
+      distance: expected.length,
+      similarity: 0,
+      mismatches: [],
+      passed: false,
+      error: e?.message || String(e),
+      ...positionField,
+    };
   }
 };
 
+/** One plate to produce: on the whole image, one targeted vehicle, or one end of the car. */
+interface PlateEdit extends PlateSpec {
+  region: PlateQuad | null;
+  vehicle: DetectedVehicle | null;
+  position: PlatePosition | null;
+}
+
+interface EditContext {
+  provider: ImageModelProvider;
+  mode: 'add' | 'replace';
+  compositeOptions?: CompositeOptions;
+  compositeFallback: boolean;
+  cropAndStitch: boolean;
+  plateStyle: PlateStyle;
+  /** Edits sent at the same time per round, at least 1. */
+  variants: number;
+  onProgress?: (status: string) => void;
+  signal?: AbortSignal;
+}
+
+const MAX_RETRIES = 4;
+
+/** Most edits that may be sent to the model at the same time. */
+export const MAX_VARIANTS = 4;
+
+const boxArea = (box: BoundingBox) => box.width * box.height;
+
+interface EditArea {
+  box: BoundingBox;
+  /** False when the box is a whole vehicle rather than its plate. */
+  isPlate: boolean;
+}
+
 /**
- * Unified function to Add or Replace a plate using text prompts.
+ * Finds the part of the image an edit touches: the marked region, the targeted
+ * vehicle's plate (or the vehicle itself), or else the largest detected plate or vehicle.
+ * Returns null when it cannot tell, e.g. for a front-only edit without a region,
+ * and the full image is edited instead.
  */
-export const generatePlate = async (
+const locateEditArea = async (
+  provider: ImageModelProvider,
   imageBase64: string,
-  plateNumber: string,
-  plateCountry: string,
+  edit: PlateEdit,
   mode: 'add' | 'replace',
-  onProgress?: (status: string) => void,
-  skipDetection: boolean = false
-): Promise<string> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing in environment variables.");
-  }
+  signal?: AbortSignal
+): Promise<EditArea | null> => {
+  if (edit.region) return { box: quadToBox(edit.region), isPlate: true };
+  if (edit.vehicle) return edit.vehicle.plate ? { box: edit.vehicle.plate, isPlate: true } : { box: edit.vehicle.box, isPlate: false };
+  // Detection cannot tell a front plate from a rear one.
+  if (edit.position) return null;
 
-  if (onProgress) onProgress('Checking image...');
-  const processedImage = await preprocessImage(imageBase64);
-
-  // Check for existing plate if in 'add' mode and detection is not skipped
-  if (mode === 'add' && !skipDetection) {
-    if (onProgress) onProgress('Scanning for existing plates...');
-    const hasPlate = await checkForExistingPlate(processedImage);
-    if (hasPlate) {
-      throw new Error("PLATE_DETECTED_CONFIRMATION");
+  try {
+    const vehicles = await provider.detectVehicles(imageBase64, { signal });
+    if (mode === 'replace') {
+      const plates = vehicles.map(vehicle => vehicle.plate).filter((plate): plate is BoundingBox => plate !== null);
+      const plate = plates.sort((a, b) => boxArea(b) - boxArea(a))[0];
+      return plate ? { box: plate, isPlate: true } : null;
     }
+    const vehicle = vehicles.map(vehicle => vehicle.box).sort((a, b) => boxArea(b) - boxArea(a))[0];
+    return vehicle ? { box: vehicle, isPlate: false } : null;
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Could not locate the plate area, editing the full image:", e);
+    return null;
+  }
+};
+
+/**
+ * Runs the out-of-region change check. Failures to analyse are logged and skipped,
+ * since a missing check should not sink an otherwise good attempt.
+ */
+const checkChanges = async (referenceImage: string, generatedImage: string, plateAreas: BoundingBox[]): Promise<ChangeAnalysis | null> => {
+  try {
+    return await analyzeChanges(referenceImage, generatedImage, plateAreas);
+  } catch (e) {
+    console.warn("Change detection failed, skipping it:", e);
+    return null;
   }
+};
+
+/** Attempts that left the rest of the image alone rank above those that did not, then by text similarity. */
+const ranksAbove = (report: VerificationReport, current: VerificationReport) => {
+  const keptImage = (r: VerificationReport) => r.change?.passed !== false;
+  if (keptImage(report) !== keptImage(current)) return keptImage(report);
+  return report.similarity > current.similarity;
+};
+
+/** Best first. Ties keep attempt order, so the earlier attempt wins. */
+const rankCandidates = (candidates: GenerationCandidate[]) =>
+  [...candidates].sort((a, b) => (
+    ranksAbove(a.verification, b.verification) ? -1 : ranksAbove(b.verification, a.verification) ? 1 : 0
+  ));
+
+/**
+ * Runs the edit/verify loop for one plate.
+ * `sourceImage` is sent to the model when the full image is edited. `baseImage`
+ * is the full-resolution image that crops are cut from and stitched back into,
+ * and that the local renderer draws onto if every attempt fails.
+ */
+const runEditAttempts = async (
+  sourceImage: string,
+  baseImage: string,
+  edit: PlateEdit,
+  context: EditContext
+): Promise<GenerationResult> => {
+  const { provider, mode, compositeOptions, compositeFallback, cropAndStitch, plateStyle, variants, onProgress, signal } = context;
+  const { plateNumber, plateCountry, region, vehicle, position } = edit;
+  const plateFormat = findPlateFormat(plateCountry);
+  const prefix = vehicle ? `${vehicle.label}: ` : position ? `${position === 'front' ? 'Front' : 'Rear'} plate: ` : '';
 
-  const MAX_RETRIES = 4;
-  const base64Data = processedImage.split(',')[1];
-  const mimeType = processedImage.match(/data:([^;]+);/)?.[1] || 'image/jpeg';
+  // Editing only a crop keeps every pixel outside it identical to the base image.
+  if (cropAndStitch && onProgress) onProgress(prefix + 'Locating plate area...');
+  const area = cropAndStitch ? await locateEditArea(provider, sourceImage, edit, mode, signal) : null;
+  const crop = area ? await createEditCrop(baseImage, area.box, signal) : null;
+  const plateAreas = region ? [quadToBox(region)] : vehicle?.plate ? [vehicle.plate] : area?.isPlate ? [area.box] : [];
+  const promptRegion = crop && region ? quadToCrop(region, crop) : region;
+  const promptVehicle = crop ? null : vehicle;
+  const toFullImage = (edited: string) => (crop ? stitchCrop(baseImage, edited, crop, signal) : Promise.resolve(edited));
   
-  let lastGeneratedImage = '';
-  let lastError = null;
+  const prompt = buildEditPrompt({
+    mode,
+    plateNumber,
+    plateCountry,
+    plateFormat,
+    style: plateStyle,
+    position,
+    targeted: !!(region || vehicle),
+    region: promptRegion,
+    vehicle: promptVehicle,
+    isCrop: !!crop,
+  });
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      if (onProgress) onProgress(attempt > 1 ? `Refining details (Attempt ${attempt}/${MAX_RETRIES})...` : `Generating plate...`);
+  /** Runs one edit and scores it. Stage messages are only shown when the edit runs alone. */
+  const runAttempt = async (attempt: number, showStages: boolean): Promise<GenerationCandidate> => {
+    const generatedImageUrl = await provider.editImage(crop ? crop.image : sourceImage, prompt, { signal });
+
+    if (onProgress && showStages) onProgress(prefix + `Verifying plate text...`);
+    // With several vehicles in frame, OCR must only see the one we edited.
+    const ocrImage = !crop && vehicle ? await cropImage(generatedImageUrl, padBox(vehicle.box, 0.1), signal) : generatedImageUrl;
+    let report = await verifyPlateContent(provider, ocrImage, plateNumber, attempt, position, isWorn(plateStyle), signal);
+    const image = await toFullImage(generatedImageUrl);
+
+    if (onProgress && showStages) onProgress(prefix + `Checking the rest of the image...`);
+    const change = await checkChanges(baseImage, image, plateAreas);
+    throwIfAborted(signal);
+    if (change) {
+      report = { ...report, change: change.report, passed: report.passed && change.report.passed };
+    }
+    return { image, verification: report, changeHeatmap: change?.heatmap };
+  };
 
-      let actionPrompt = "";
-      if (mode === 'add') {
-        actionPrompt = `The car in this image does not have a license plate. Add a realistic ${plateCountry} license plate to the front bumper (or rear bumper if the rear is visible).`;
+  const attemptReports: VerificationReport[] = [];
+  // Every scored output, in attempt order.
+  const candidates: GenerationCandidate[] = [];
+  const budget = Math.max(MAX_RETRIES, variants);
+  let attempts = 0;
+  let rounds = 0;
+  let lastError: Error | null = null;
+
+  const toResult = (chosen: GenerationCandidate, verified: boolean): GenerationResult => ({
+    image: chosen.image,
+    verified,
+    attempts,
+    verification: chosen.verification,
+    attemptReports,
+    source: 'model',
+    changeHeatmap: chosen.changeHeatmap,
+    ...(variants > 1 ? { candidates: rankCandidates(candidates) } : {}),
+  });
+
+  // Each round sends up to `variants` edits at once and stops early if any passes.
+  while (attempts < budget) {
+    throwIfAborted(signal);
+    const round = Array.from({ length: Math.min(variants, budget - attempts) }, (_, i) => attempts + i + 1);
+    attempts += round.length;
+    rounds++;
+
+    if (onProgress) {
+      if (round.length > 1) {
+        onProgress(prefix + (rounds > 1 ? `Generating ${round.length} more variants...` : `Generating ${round.length} variants...`));
       } else {
-        actionPrompt = `Replace the existing license plate on the car with a realistic ${plateCountry} license plate.`;
+        onProgress(prefix + (round[0] > 1 ? `Refining details (Attempt ${round[0]}/${budget})...` : `Generating plate...`));
       }
+    }
 
-      const prompt = `Edit this image. ${actionPrompt}
-      The license plate text must be strictly "${plateNumber}". 
-      Ensure the text is sharp, legible, and perfectly spelled.
-      Maintain the exact perspective, lighting, shadows, and reflection of the original car and bumper. 
-      Do not modify any other part of the car or the background. High quality, photorealistic.`;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                data: base64Data,
-                mimeType: mimeType,
-              },
-            },
-            {
-              text: prompt,
-            },
-          ],
-        },
-      });
-
-      let generatedImageUrl = '';
-      const parts = response.candidates?.[0]?.content?.parts;
-
-      if (parts) {
-        for (const part of parts) {
-          if (part.inlineData && part.inlineData.data) {
-            generatedImageUrl = `data:image/png;base64,${part.inlineData.data}`;
-            break; 
-          }
-        }
-      }
+    let scored = 0;
+    const outcomes = await Promise.allSettled(round.map(async attempt => {
+      const candidate = await runAttempt(attempt, round.length === 1);
+      if (onProgress && round.length > 1) onProgress(prefix + `Scored ${++scored}/${round.length} variants...`);
+      return candidate;
+    }));
 
-      if (!generatedImageUrl) {
-        throw new Error("No image was returned by the model.");
+    let failedTransiently = false;
+    for (const [index, outcome] of outcomes.entries()) {
+      if (outcome.status === 'fulfilled') {
+        attemptReports.push(outcome.value.verification);
+        candidates.push(outcome.value);
+        continue;
       }
+      if (isAbortError(outcome.reason)) throw outcome.reason;
+      console.error(`Attempt ${round[index]} error:`, outcome.reason);
+      lastError = classifyError(outcome.reason);
 
-      lastGeneratedImage = generatedImageUrl;
+      // Missing keys, safety blocks and bad input fail the same way every time.
+      if (lastError instanceof PlateMorphError && !lastError.retryable) throw lastError;
+      failedTransiently = failedTransiently || isTransientError(lastError);
+    }
 
-      if (onProgress) onProgress(`Verifying plate text...`);
-      const isPerfect = await verifyPlateContent(generatedImageUrl, plateNumber);
+    const passing = rankCandidates(candidates).find(candidate => candidate.verification.passed);
+    if (passing) {
+      return toResult(passing, true);
+    }
 
-      if (isPerfect) {
-        return generatedImageUrl;
-      } else {
-        console.log(`Attempt ${attempt} failed verification. Retrying...`);
-      }
+    if (attempts < budget && failedTransiently) {
+      const retryAfterMs = lastError instanceof RateLimitError ? lastError.retryAfterMs : null;
+      const delay = backoffDelay(rounds, retryAfterMs);
+      if (onProgress) onProgress(`Model busy, retrying in ${Math.ceil(delay / 1000)}s...`);
+      await abortableDelay(delay, signal);
+    }
+  }
+
+  throwIfAborted(signal);
 
+  if (compositeFallback && region) {
+    if (onProgress) onProgress(prefix + 'AI output failed verification, rendering plate locally...');
+    try {
+      const image = await compositePlate(baseImage, plateNumber, plateCountry, region, compositeOptions);
+      return {
+        image,
+        verified: true,
+        attempts,
+        verification: null,
+        attemptReports,
+        source: 'composite',
+        ...(variants > 1 && candidates.length > 0 ? { candidates: rankCandidates(candidates) } : {}),
+      };
     } catch (error: any) {
-      console.error(`Attempt ${attempt} error:`, error);
+      console.error("Composite fallback failed:", error);
       lastError = error;
     }
   }
 
-  if (lastGeneratedImage) {
-    return lastGeneratedImage;
+  const best = rankCandidates(candidates)[0];
+  if (best) {
+    const result = toResult(best, false);
+    // Only fail outright when the plate was read every time and never matched at all.
+    if (best.verification.similarity === 0 && attemptReports.every(report => !report.error)) {
+      throw new VerificationFailedError(result);
+    }
+    return result;
   }
 
+  if (lastError instanceof PlateMorphError) throw lastError;
   throw new Error(lastError?.message || "Failed to generate valid image after multiple attempts");
-};
\ No newline at end of file
+};
+
+/**
+ * Combines per-plate results into one. The weakest report is surfaced so the
+ * panel shows the plate that needs attention.
+ */
+const mergePlateResults = (image: string, edits: PlateEdit[], results: GenerationResult[]): GenerationResult => {
+  const plateResults: PlateResult[] = results.map((result, index) => ({
+    plateNumber: edits[index].plateNumber,
+    plateCountry: edits[index].plateCountry,
+    ...(edits[index].vehicle ? { vehicleId: edits[index].vehicle!.id } : {}),
+    ...(edits[index].position ? { position: edits[index].position! } : {}),
+    verified: result.verified,
+    verification: result.verification,
+    source: result.source,
+  }));
+  const reports = results
+    .map(result => result.verification)
+    .filter((report): report is VerificationReport => report !== null)
+    .sort((a, b) => a.similarity - b.similarity);
+
+  return {
+    image,
+    verified: results.every(result => result.verified),
+    attempts: results.reduce((sum, result) => sum + result.attempts, 0),
+    verification: reports[0] ?? null,
+    attemptReports: results.flatMap(result => result.attemptReports),
+    source: results.every(result => result.source === 'composite') ? 'composite' : 'model',
+    plateResults,
+  };
+};
+
+/**
+ * Finds every vehicle in the image, ordered left to right. Detections are
+ * cached by image unless `forceFresh` is set.
+ */
+export const detectVehicles = async (imageBase64: string, signal?: AbortSignal, forceFresh = false): Promise<DetectedVehicle[]> => {
+  const meter = createUsageMeter();
+  try {
+    const provider = meter.wrap(getImageProvider);
+    const processedImage = await preprocessImage(imageBase64, signal);
+    const key = await cacheKey('vehicle-detection', processedImage, { provider: provider.name });
+    let detections = forceFresh ? null : await readCache<Omit<DetectedVehicle, 'id'>[]>(key);
+    if (!detections) {
+      detections = await provider.detectVehicles(processedImage, { signal });
+      throwIfAborted(signal);
+      await writeCache('vehicle-detection', key, detections);
+    }
+    return detections
+      .sort((a, b) => a.box.x - b.box.x)
+      .map((detection, index) => ({ id: `vehicle-${index + 1}`, ...detection }));
+  } finally {
+    recordSessionUsage(meter.summary());
+  }
+};
+
+/**
+ * Checks the budget, then runs `task` with a metered provider. The calls it
+ * made are attached to the result, including a partial one, and added to the
+ * session total whether the run succeeds or not.
+ */
+const withUsage = async (
+  estimateUsd: number,
+  task: (provider: ImageModelProvider) => Promise<GenerationResult>
+): Promise<GenerationResult> => {
+  const budget = checkBudget(estimateUsd);
+  if (budget.status === 'block') {
+    throw new BudgetExceededError(budget.message!);
+  }
+
+  const meter = createUsageMeter();
+  const withSummary = (result: GenerationResult): GenerationResult => {
+    const usage = meter.summary();
+    return usage.calls.length > 0 ? { ...result, usage } : result;
+  };
+  try {
+    return withSummary(await task(meter.wrap(getImageProvider)));
+  } catch (error) {
+    if (error instanceof VerificationFailedError) {
+      throw new VerificationFailedError(withSummary(error.result), error.message);
+    }
+    throw error;
+  } finally {
+    recordSessionUsage(meter.summary());
+  }
+};
+
+export interface RefinePlateOptions {
+  /** Style of the plates in the image, so worn plates are verified with the same tolerance. */
+  plateStyle?: PlateStyle;
+  signal?: AbortSignal;
+}
+
+/**
+ * Applies a follow-up instruction, such as "move the plate slightly lower", to
+ * an existing result and reads every plate back. Transient model errors are
+ * retried; a version that fails verification is still returned, unverified,
+ * since the user decides whether to keep it.
+ */
+export const refinePlate = async (
+  imageBase64: string,
+  instruction: string,
+  plates: PlateCheck[],
+  onProgress?: (status: string) => void,
+  options: RefinePlateOptions = {}
+): Promise<GenerationResult> => {
+  const estimate = TYPICAL_CALL_USD.edit + plates.length * TYPICAL_CALL_USD.ocr;
+  return withUsage(estimate, provider => runRefinement(provider, imageBase64, instruction, plates, onProgress, options));
+};
+
+const runRefinement = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  instruction: string,
+  plates: PlateCheck[],
+  onProgress?: (status: string) => void,
+  options: RefinePlateOptions = {}
+): Promise<GenerationResult> => {
+  const { plateStyle = DEFAULT_PLATE_STYLE, signal } = options;
+  if (!instruction.trim()) {
+    throw new UnsupportedInputError("Describe the change you want, e.g. \"move the plate slightly lower\".");
+  }
+  if (plates.length === 0) {
+    throw new UnsupportedInputError("Follow-up edits need the plate number the result should keep.");
+  }
+  const prompt = buildFollowUpPrompt(instruction, plates.map(plate => plate.plateNumber), plateStyle);
+
+  let edited: string | null = null;
+  let attempts = 0;
+  for (let attempt = 1; !edited; attempt++) {
+    throwIfAborted(signal);
+    attempts = attempt;
+    try {
+      if (onProgress) onProgress(attempt > 1 ? `Applying change (Attempt ${attempt}/${MAX_RETRIES})...` : 'Applying change...');
+      edited = await provider.editImage(imageBase64, prompt, { signal });
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      const classified = classifyError(error);
+      if (attempt >= MAX_RETRIES || !isTransientError(classified)) throw classified;
+      const delay = backoffDelay(attempt, classified instanceof RateLimitError ? classified.retryAfterMs : null);
+      if (onProgress) onProgress(`Model busy, retrying in ${Math.ceil(delay / 1000)}s...`);
+      await abortableDelay(delay, signal);
+    }
+  }
+
+  const reports: VerificationReport[] = [];
+  for (const plate of plates) {
+    if (onProgress) onProgress(plates.length > 1 ? `Verifying ${plate.vehicle?.label || `${plate.position} plate`}...` : 'Verifying plate text...');
+    const ocrImage = plate.vehicle ? await cropImage(edited, padBox(plate.vehicle.box, 0.1), signal) : edited;
+    reports.push(await verifyPlateContent(provider, ocrImage, plate.plateNumber, attempts, plate.position ?? null, isWorn(plateStyle), signal));
+  }
+
+  const weakest = [...reports].sort((a, b) => a.similarity - b.similarity)[0];
+  return {
+    image: await restoreOriginalSize(edited, imageBase64, signal),
+    verified: reports.every(report => report.passed),
+    attempts,
+    verification: weakest,
+    attemptReports: reports,
+    source: 'model',
+  };
+};
+
+/**
+ * Unified function to Add or Replace a plate using text prompts.
+ * 'composite' mode skips the model and renders the plate locally into the region.
+ * 'redact' mode ignores the plate arguments and hides every plate instead.
+ * With `targets`, each selected vehicle is edited in turn with its own plate;
+ * with `placement` 'both', the front and rear plates are edited in turn.
+ * Resolves with the best image produced and whether it passed verification.
+ */
+export const generatePlate = async (
+  imageBase64: string,
+  plateNumber: string,
+  plateCountry: string,
+  mode: PlateMode,
+  onProgress?: (status: string) => void,
+  options: GeneratePlateOptions = {}
+): Promise<GenerationResult> => {
+  // The signal and the detection and cache switches do not change the output, so they stay out of the key.
+  const { signal, forceFresh = false, skipDetection, ...settings } = options;
+  // Composite renders are local and free, so they are not worth storing.
+  const key = mode === 'composite'
+    ? null
+    : await cacheKey('generation', imageBase64, { provider: getImageProvider().name, plateNumber, plateCountry, mode, settings });
+
+  const cached = key && !forceFresh ? await readCache<GenerationResult>(key) : null;
+  if (cached) {
+    throwIfAborted(signal);
+    if (onProgress) onProgress('Loaded from cache.');
+    return { ...cached, fromCache: true };
+  }
+
+  const result = await withUsage(
+    estimateGenerationCost(mode, options),
+    provider => runGeneration(provider, imageBase64, plateNumber, plateCountry, mode, onProgress, options)
+  );
+  // Only verified model output is worth repeating. Usage describes this run, not later hits.
+  if (key && result.verified && result.source === 'model') {
+    const { usage, ...stored } = result;
+    await writeCache('generation', key, stored);
+  }
+  return result;
+};
+
+const clampVariants = (variants = 1) => Math.min(Math.max(Math.round(variants), 1), MAX_VARIANTS);
+
+/**
+ * Most a generatePlate run can spend on model calls, at typical per-call
+ * prices. Checked against the budget before the run starts.
+ */
+export const estimateGenerationCost = (mode: PlateMode, options: GeneratePlateOptions = {}): number => {
+  const { skipDetection = false, targets = [], placement = 'auto', redaction = 'blur' } = options;
+  const cropAndStitch = (options.cropAndStitch ?? true) && canCropAndStitch();
+  if (mode === 'composite') return 0;
+  if (mode === 'redact') {
+    // The number of plates is unknown up front; assume one.
+    const removal = redaction === 'remove' ? MAX_RETRIES * (TYPICAL_CALL_USD.edit + TYPICAL_CALL_USD['detect-plate']) : 0;
+    return TYPICAL_CALL_USD['detect-vehicles'] + removal;
+  }
+
+  const plates = targets.length || (placement === 'both' ? 2 : 1);
+  const attempts = Math.max(MAX_RETRIES, clampVariants(options.variants));
+  const perPlate = (cropAndStitch ? TYPICAL_CALL_USD['detect-vehicles'] : 0) + attempts * (TYPICAL_CALL_USD.edit + TYPICAL_CALL_USD.ocr);
+  const existingPlateChecks = mode === 'add' && !skipDetection && targets.length === 0 ? plates : 0;
+  return existingPlateChecks * TYPICAL_CALL_USD['detect-plate'] + plates * perPlate;
+};
+
+const runGeneration = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  plateNumber: string,
+  plateCountry: string,
+  mode: PlateMode,
+  onProgress?: (status: string) => void,
+  options: GeneratePlateOptions = {}
+): Promise<GenerationResult> => {
+  const {
+    skipDetection = false,
+    forceFresh = false,
+    region = null,
+    compositeOptions,
+    compositeFallback = false,
+    targets = [],
+    rearPlate,
+    redaction = 'blur',
+    plateStyle = DEFAULT_PLATE_STYLE,
+    signal,
+  } = options;
+  // Without a canvas the crop would be thrown away, so the area is not located either.
+  const cropAndStitch = (options.cropAndStitch ?? true) && canCropAndStitch();
+  const variants = clampVariants(options.variants);
+  if (mode === 'redact') {
+    return redactPlates(imageBase64, redaction, onProgress, { region, signal, provider });
+  }
+  const placement = mode === 'composite' ? 'auto' : options.placement ?? 'auto';
+  throwIfAborted(signal);
+
+  let edits: PlateEdit[];
+  if (targets.length > 0) {
+    // A detected plate box doubles as the region for that vehicle.
+    edits = targets.map(target => ({
+      plateNumber: target.plateNumber,
+      plateCountry: target.plateCountry,
+      region: target.vehicle.plate ? boxToQuad(target.vehicle.plate) : null,
+      vehicle: target.vehicle,
+      position: null,
+    }));
+  } else if (placement === 'both') {
+    if (!rearPlate?.plateNumber || !rearPlate.plateCountry) {
+      throw new UnsupportedInputError("Enter a number and country for the rear plate, or choose a single plate position.");
+    }
+    // A marked region describes a single plate, so it is not used here.
+    edits = [
+      { plateNumber, plateCountry, region: null, vehicle: null, position: 'front' },
+      { ...rearPlate, region: null, vehicle: null, position: 'rear' },
+    ];
+  } else {
+    edits = [{ plateNumber, plateCountry, region, vehicle: null, position: placement === 'auto' ? null : placement }];
+  }
+
+  if (mode === 'composite') {
+    const missing = edits.find(edit => !edit.region);
+    if (missing) {
+      throw new UnsupportedInputError(missing.vehicle
+        ? `Composite mode needs a visible plate on the ${missing.vehicle.label}. Deselect it or use Add mode.`
+        : "Composite mode needs a marked plate area. Use 'Mark Plate Area' on the uploaded image.");
+    }
+    let image = imageBase64;
+    const results: GenerationResult[] = [];
+    for (const edit of edits) {
+      if (onProgress) onProgress(`${edit.vehicle ? `${edit.vehicle.label}: ` : ''}Rendering plate locally...`);
+      image = await compositePlate(image, edit.plateNumber, edit.plateCountry, edit.region!, compositeOptions);
+      throwIfAborted(signal);
+      results.push({ image, verified: true, attempts: 0, verification: null, attemptReports: [], source: 'composite' });
+    }
+    return edits.length > 1 || targets.length > 0 ? mergePlateResults(image, edits, results) : results[0];
+  }
+
+  if (onProgress) onProgress('Checking image...');
+  const processedImage = await preprocessImage(imageBase64, signal);
+
+  // Check for existing plate if in 'add' mode and detection is not skipped
+  if (mode === 'add' && !skipDetection) {
+    if (onProgress) onProgress('Scanning for existing plates...');
+    let hasPlate = false;
+    if (targets.length > 0) {
+      hasPlate = targets.some(target => target.vehicle.plate);
+    } else {
+      for (const edit of edits) {
+        hasPlate = hasPlate || await checkForExistingPlate(provider, processedImage, edit.position, forceFresh, signal);
+      }
+    }
+    if (hasPlate) {
+      throw new PlateDetectedError();
+    }
+  }
+
+  const context: EditContext = { provider, mode, compositeOptions, compositeFallback, cropAndStitch, plateStyle, variants, onProgress, signal };
+  // The chosen image is also one of the candidates; resize it once.
+  const resized = new Map<string, Promise<string>>();
+  const toOriginalSize = (image: string) => {
+    if (!resized.has(image)) resized.set(image, restoreOriginalSize(image, imageBase64, signal));
+    return resized.get(image)!;
+  };
+  const withOriginalSize = async (result: GenerationResult): Promise<GenerationResult> => ({
+    ...result,
+    image: await toOriginalSize(result.image),
+    ...(result.candidates ? {
+      candidates: await Promise.all(result.candidates.map(async candidate => ({ ...candidate, image: await toOriginalSize(candidate.image) }))),
+    } : {}),
+  });
+
+  if (edits.length === 1 && targets.length === 0) {
+    try {
+      return await withOriginalSize(await runEditAttempts(processedImage, imageBase64, edits[0], context));
+    } catch (error) {
+      if (error instanceof VerificationFailedError) {
+        throw new VerificationFailedError(await withOriginalSize(error.result), error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Each plate is edited on top of the previous plate's output. Crops are cut
+  // from the untouched upload so nothing outside them is re-encoded.
+  let current = cropAndStitch ? imageBase64 : processedImage;
+  const results: GenerationResult[] = [];
+  for (const edit of edits) {
+    let result: GenerationResult;
+    try {
+      result = await runEditAttempts(current, current, edit, context);
+    } catch (error) {
+      if (!(error instanceof VerificationFailedError)) throw error;
+      result = error.result;
+    }
+    current = result.image;
+    results.push(result);
+  }
+  const merged = await withOriginalSize(mergePlateResults(current, edits, results));
+  // One heatmap for the whole run, ignoring every plate that was edited.
+  const plateAreas = results.flatMap(result => result.verification?.change?.excluded ?? []);
+  const change = await checkChanges(imageBase64, merged.image, plateAreas);
+  return change ? { ...merged, changeHeatmap: change.heatmap } : merged;
+};
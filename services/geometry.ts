@@ -0,0 +1,108 @@
+import { BoundingBox, Point, PlateQuad } from '../types';
+
+/** Row-major 3x3 projective transform. */
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Solves A·x = b in place with Gaussian elimination and partial pivoting.
+ */
+const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error("Plate region is degenerate. Make sure the four corners form a proper quadrilateral.");
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/**
+ * Computes the homography that maps each `from` point onto the matching `to` point.
+ */
+export const computeHomography = (from: Point[], to: Point[]): Homography => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solveLinearSystem(a, b);
+  return [h0, h1, h2, h3, h4, h5, h6, h7, 1];
+};
+
+export const applyHomography = (h: Homography, x: number, y: number): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+};
+
+/** Converts a normalized quad into pixel coordinates for an image of the given size. */
+export const quadToPixels = (quad: PlateQuad, width: number, height: number): PlateQuad =>
+  quad.map(p => ({ x: p.x * width, y: p.y * height })) as PlateQuad;
+
+/** Integer pixel bounds of the quad, clipped to the image. */
+export const quadBounds = (quad: PlateQuad, width: number, height: number) => {
+  const xs = quad.map(p => p.x);
+  const ys = quad.map(p => p.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+  return { left, top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Average length of the horizontal and vertical edges of a pixel-space quad. */
+export const quadEdgeLengths = (quad: PlateQuad) => {
+  const [tl, tr, br, bl] = quad;
+  return {
+    width: (distance(tl, tr) + distance(bl, br)) / 2,
+    height: (distance(tl, bl) + distance(tr, br)) / 2,
+  };
+};
+
+/** Corners of a normalized box, in the TL, TR, BR, BL order used by PlateQuad. */
+export const boxToQuad = (box: BoundingBox): PlateQuad => [
+  { x: box.x, y: box.y },
+  { x: box.x + box.width, y: box.y },
+  { x: box.x + box.width, y: box.y + box.height },
+  { x: box.x, y: box.y + box.height },
+];
+
+/** Grows a normalized box by `amount` of its size on every side, clipped to the image. */
+export const padBox = (box: BoundingBox, amount: number): BoundingBox => {
+  const x = Math.max(0, box.x - box.width * amount);
+  const y = Math.max(0, box.y - box.height * amount);
+  return {
+    x,
+    y,
+    width: Math.min(1, box.x + box.width * (1 + amount)) - x,
+    height: Math.min(1, box.y + box.height * (1 + amount)) - y,
+  };
+};
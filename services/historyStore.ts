@@ -0,0 +1,203 @@
+import { GenerationResult, GenerationSettings, HistoryEntry, HistoryPayload, PlateMode, PlateQuad } from '../types';
+
+const DB_NAME = 'platemorph';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'history';
+const PAYLOAD_STORE = 'historyPayloads';
+
+const MAX_ENTRIES = 200;
+// Leave headroom under the browser quota for everything else the app stores.
+const QUOTA_USAGE_LIMIT = 0.8;
+const THUMBNAIL_SIZE = 256;
+
+export interface GenerationRecord {
+  originalImage: string;
+  plateNumber: string;
+  plateCountry: string;
+  mode: PlateMode;
+  plateRegion: PlateQuad | null;
+  result: GenerationResult;
+  settings?: GenerationSettings;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this environment."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(PAYLOAD_STORE)) {
+          db.createObjectStore(PAYLOAD_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+const createThumbnail = (imageBase64: string): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(imageBase64);
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => resolve('');
+    img.src = imageBase64;
+  });
+};
+
+/**
+ * Lists saved generations, newest first. Only metadata and thumbnails are loaded.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const entries = await promisify<HistoryEntry[]>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getHistoryPayload = async (id: string): Promise<HistoryPayload | null> => {
+  const db = await openDatabase();
+  const payload = await promisify<HistoryPayload | undefined>(db.transaction(PAYLOAD_STORE).objectStore(PAYLOAD_STORE).get(id));
+  return payload || null;
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, PAYLOAD_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).delete(id);
+  tx.objectStore(PAYLOAD_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes the oldest entries until the count limit and the storage quota
+ * leave room for `incomingSize` more bytes. Returns how many were removed.
+ */
+const evictForSpace = async (incomingSize: number, force = false): Promise<number> => {
+  const entries = (await listHistory()).reverse(); // oldest first
+  let removed = 0;
+
+  let usage = 0;
+  let quota = Infinity;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage ?? 0;
+    quota = estimate.quota ?? Infinity;
+  }
+
+  for (const entry of entries) {
+    const overCount = entries.length - removed >= MAX_ENTRIES;
+    const overQuota = usage + incomingSize > quota * QUOTA_USAGE_LIMIT;
+    if (!overCount && !overQuota && !(force && removed === 0)) break;
+
+    await deleteHistoryEntry(entry.id);
+    usage -= entry.size;
+    removed++;
+  }
+  return removed;
+};
+
+const writeEntry = async (entry: HistoryEntry, payload: HistoryPayload) => {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, PAYLOAD_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).put(entry);
+  tx.objectStore(PAYLOAD_STORE).put(payload);
+  await transactionDone(tx);
+};
+
+/**
+ * Saves a finished generation, evicting the oldest entries when storage is tight.
+ */
+export const saveGeneration = async (record: GenerationRecord): Promise<HistoryEntry> => {
+  const [originalThumbnail, resultThumbnail] = await Promise.all([
+    createThumbnail(record.originalImage),
+    createThumbnail(record.result.image),
+  ]);
+
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const size = record.originalImage.length + record.result.image.length + originalThumbnail.length + resultThumbnail.length;
+  const entry: HistoryEntry = {
+    id,
+    createdAt: Date.now(),
+    mode: record.mode,
+    plateNumber: record.plateNumber,
+    plateCountry: record.plateCountry,
+    plateRegion: record.plateRegion,
+    originalThumbnail,
+    resultThumbnail,
+    verified: record.result.verified,
+    similarity: record.result.verification?.similarity ?? null,
+    source: record.result.source,
+    size,
+  };
+  const payload: HistoryPayload = { id, originalImage: record.originalImage, result: record.result, settings: record.settings };
+
+  await evictForSpace(size);
+
+  // The estimate is only approximate; if the write still overflows, drop more and retry.
+  for (let retry = 0; ; retry++) {
+    try {
+      await writeEntry(entry, payload);
+      return entry;
+    } catch (e) {
+      if (!isQuotaError(e) || retry >= 5) throw e;
+      const removed = await evictForSpace(size, true);
+      if (removed === 0) throw e;
+    }
+  }
+};
+
+/**
+ * Case-insensitive match on plate number, country and mode.
+ */
+export const filterHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const key = query.trim().toLowerCase();
+  if (!key) return entries;
+  const compactKey = key.replace(/[\s\-·]/g, '');
+  return entries.filter(entry =>
+    entry.plateNumber.toLowerCase().replace(/[\s\-·]/g, '').includes(compactKey) ||
+    entry.plateCountry.toLowerCase().includes(key) ||
+    entry.mode.includes(key)
+  );
+};
@@ -0,0 +1,170 @@
+import { throwIfAborted } from './abort';
+import { UnsupportedInputError } from './errors';
+
+/** Formats all supported browsers decode. HEIC and TIFF are not among them. */
+const ACCEPTED_TYPES: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+export const ACCEPTED_IMAGE_TYPES = Object.keys(ACCEPTED_TYPES).join(',');
+
+export const MAX_INPUT_BYTES = 25 * 1024 * 1024;
+const MIN_DIMENSION = 64;
+/** Longest side sent on. Larger photos are scaled down to keep requests under the API server's body limit. */
+export const MAX_DIMENSION = 4096;
+const JPEG_QUALITY = 0.92;
+const URL_TIMEOUT_MS = 20_000;
+
+export interface ImageInput {
+  dataUrl: string;
+  width: number;
+  height: number;
+  /** Size of the file as decoded, before any downscaling. */
+  sourceWidth: number;
+  sourceHeight: number;
+  downscaled: boolean;
+}
+
+const formatMb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/**
+ * Identifies the format from the file's first bytes, so a misnamed or corrupt
+ * file is caught before it is decoded. Returns null for anything unknown.
+ */
+const sniffType = async (blob: Blob): Promise<string | null> => {
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...header.slice(start, end));
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'image/jpeg';
+  if (header[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp') return /^hei|^mif1/.test(ascii(8, 12)) ? 'image/heic' : 'image/avif';
+  return null;
+};
+
+const decodeImage = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new UnsupportedInputError("This image could not be decoded. The file may be corrupt or truncated."));
+    };
+    img.src = url;
+  });
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new UnsupportedInputError("The file could not be read.", { cause: reader.error }));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Checks an uploaded, pasted, dropped or downloaded image for type, size and
+ * dimensions, and scales photos larger than MAX_DIMENSION down before they
+ * reach the pipeline. Throws UnsupportedInputError with a message for the user.
+ */
+export const loadImageInput = async (blob: Blob): Promise<ImageInput> => {
+  if (blob.size === 0) {
+    throw new UnsupportedInputError("The file is empty.");
+  }
+  if (blob.size > MAX_INPUT_BYTES) {
+    throw new UnsupportedInputError(`The image is ${formatMb(blob.size)}; the limit is ${formatMb(MAX_INPUT_BYTES)}.`);
+  }
+
+  const type = await sniffType(blob);
+  if (!type || !ACCEPTED_TYPES[type]) {
+    const found = type === 'image/heic' ? 'a HEIC photo' : type === 'image/avif' ? 'an AVIF image' : blob.type ? `a ${blob.type} file` : 'not a recognised image';
+    const names = Object.values(ACCEPTED_TYPES);
+    throw new UnsupportedInputError(`This file is ${found}. Use a ${names.slice(0, -1).join(', ')} or ${names[names.length - 1]} image instead.`);
+  }
+
+  const img = await decodeImage(blob);
+  const sourceWidth = img.naturalWidth;
+  const sourceHeight = img.naturalHeight;
+  if (Math.min(sourceWidth, sourceHeight) < MIN_DIMENSION) {
+    throw new UnsupportedInputError(`The image is ${sourceWidth}×${sourceHeight} pixels; it needs to be at least ${MIN_DIMENSION} pixels on each side.`);
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  if (scale === 1) {
+    return { dataUrl: await readAsDataUrl(blob), width: sourceWidth, height: sourceHeight, sourceWidth, sourceHeight, downscaled: false };
+  }
+
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new UnsupportedInputError("The image is too large to resize in this browser.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  // PNG keeps any transparency so preprocessing can still reject it.
+  const dataUrl = type === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { dataUrl, width, height, sourceWidth, sourceHeight, downscaled: true };
+};
+
+/**
+ * Downloads an image from a web address. Many sites do not allow other pages
+ * to fetch their images; that is reported as such rather than as a network error.
+ */
+export const loadImageFromUrl = async (address: string, signal?: AbortSignal): Promise<ImageInput> => {
+  let url: URL;
+  try {
+    url = new URL(address.trim());
+  } catch {
+    throw new UnsupportedInputError("Enter a full image address, starting with https://.");
+  }
+  if (!['http:', 'https:', 'data:'].includes(url.protocol)) {
+    throw new UnsupportedInputError("Only http, https and data image addresses can be imported.");
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, URL_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let blob: Blob;
+  try {
+    const response = await fetch(url.href, { signal: controller.signal });
+    if (!response.ok) {
+      throw new UnsupportedInputError(`The image address answered ${[response.status, response.statusText].filter(Boolean).join(' ')}.`);
+    }
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (declaredSize > MAX_INPUT_BYTES) {
+      throw new UnsupportedInputError(`The image is ${formatMb(declaredSize)}; the limit is ${formatMb(MAX_INPUT_BYTES)}.`);
+    }
+    blob = await response.blob();
+  } catch (e) {
+    throwIfAborted(signal);
+    if (e instanceof UnsupportedInputError) throw e;
+    if (timedOut) {
+      throw new UnsupportedInputError("The image took too long to download.");
+    }
+    throw new UnsupportedInputError(
+      "Could not download the image. The site may not allow other pages to load its images; save it and upload the file instead.",
+      { cause: e }
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  return loadImageInput(blob);
+};
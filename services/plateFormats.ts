@@ -0,0 +1,823 @@
+/**
+ * Registry of license plate formats by country, province and US state.
+ * Each entry drives input validation, auto-formatting, the generation prompt
+ * and the look of locally composited plates.
+ */
+
+export type PlateGrouping =
+  /** Fixed group sizes; any characters past the listed sizes form one more group. */
+  | { kind: 'fixed'; sizes: number[] }
+  /** A new group starts wherever letters change to digits or back. */
+  | { kind: 'alphanumeric' }
+  /** Groups are whatever the user types; separators are only normalized. */
+  | { kind: 'free' };
+
+export interface PlateColors {
+  background: string;
+  text: string;
+  border: string | null;
+}
+
+export interface PlateFormat {
+  id: string;
+  name: string;
+  region: 'Europe' | 'North America' | 'United States' | 'South America' | 'Asia' | 'Oceania' | 'Africa' | 'Middle East';
+  /** Other names users type for this entry, lowercase. */
+  aliases: string[];
+  /** Single allowed plate character (separators excluded). */
+  allowedChar: RegExp;
+  /** Full pattern for the plate without separators. */
+  pattern: RegExp;
+  maxLength: number;
+  grouping: PlateGrouping;
+  separator: ' ' | '-' | '·' | '';
+  example: string;
+  colors: PlateColors;
+  /** Plate width divided by plate height. */
+  aspectRatio: number;
+  /** Country code printed in a blue EU-style band on the left edge. */
+  euBand?: string;
+  font: string;
+  /** Visual description used to make generation prompts specific. */
+  description: string;
+}
+
+const LATIN = /[A-Z0-9]/;
+const EU_ASPECT = 520 / 110;
+const US_ASPECT = 12 / 6;
+const EU_FONT = '"DIN 1451 Mittelschrift", "Arial Narrow", Arial, sans-serif';
+const FE_FONT = '"FE-Schrift", "Arial Narrow", Arial, sans-serif';
+const US_FONT = '"License Plate", "Arial Narrow", Arial, sans-serif';
+
+const WHITE_BLACK: PlateColors = { background: '#ffffff', text: '#111111', border: '#111111' };
+
+const eu = (
+  id: string,
+  name: string,
+  band: string,
+  fields: Pick<PlateFormat, 'pattern' | 'maxLength' | 'grouping' | 'separator' | 'example'> & Partial<PlateFormat>
+): PlateFormat => ({
+  id,
+  name,
+  region: 'Europe',
+  aliases: [],
+  allowedChar: LATIN,
+  colors: WHITE_BLACK,
+  aspectRatio: EU_ASPECT,
+  euBand: band,
+  font: EU_FONT,
+  description: `white reflective EU-format plate with black characters and a blue EU band on the left showing the circle of stars and the letters "${band}"`,
+  ...fields,
+});
+
+const EUROPE: PlateFormat[] = [
+  eu('de', 'Germany', 'D', {
+    aliases: ['deutschland', 'german'],
+    allowedChar: /[A-ZÄÖÜ0-9]/,
+    pattern: /^[A-ZÄÖÜ]{1,3}[A-Z]{1,2}\d{1,4}[EH]?$/,
+    maxLength: 9,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: 'B AB 1234',
+    font: FE_FONT,
+    description: 'white reflective German plate with black FE-Schrift characters, a blue EU band with "D" on the left, and round registration and state seals between the district code and the letters',
+  }),
+  eu('fr', 'France', 'F', {
+    pattern: /^[A-HJ-NP-TV-Z]{2}\d{3}[A-HJ-NP-TV-Z]{2}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 3, 2] },
+    separator: '-',
+    example: 'AB-123-CD',
+    description: 'white reflective French SIV plate with black characters, a blue EU band with "F" on the left and a blue regional band with a department number and logo on the right',
+  }),
+  eu('it', 'Italy', 'I', {
+    aliases: ['italia'],
+    pattern: /^[A-HJ-NPR-TV-Z]{2}\d{3}[A-HJ-NPR-TV-Z]{2}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 3, 2] },
+    separator: ' ',
+    example: 'AB 123 CD',
+    description: 'white reflective Italian plate with black characters, a blue EU band with "I" on the left and a blue band on the right with the year and province code',
+  }),
+  eu('es', 'Spain', 'E', {
+    aliases: ['españa', 'espana'],
+    pattern: /^\d{4}[B-DF-HJ-NPR-TV-Z]{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [4, 3] },
+    separator: ' ',
+    example: '1234 BCD',
+    description: 'white reflective Spanish plate with black characters and a blue EU band with "E" on the left',
+  }),
+  eu('nl', 'Netherlands', 'NL', {
+    aliases: ['holland', 'dutch'],
+    pattern: /^[A-Z0-9]{6}$/,
+    maxLength: 6,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: 'AB-123-C',
+    colors: { background: '#f7c600', text: '#111111', border: '#111111' },
+    description: 'yellow Dutch plate with black characters and a blue EU band with "NL" on the left',
+  }),
+  eu('be', 'Belgium', 'B', {
+    aliases: ['belgique', 'belgie', 'belgië'],
+    pattern: /^\d[A-Z]{3}\d{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [1, 3, 3] },
+    separator: '-',
+    example: '1-ABC-123',
+    colors: { background: '#ffffff', text: '#a6192e', border: '#a6192e' },
+    description: 'white Belgian plate with dark red characters, a thin dark red border and a blue EU band with "B" on the left',
+  }),
+  eu('at', 'Austria', 'A', {
+    aliases: ['österreich', 'osterreich'],
+    pattern: /^[A-Z]{1,2}[A-Z0-9]{1,6}$/,
+    maxLength: 8,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: 'W 12345 A',
+    description: 'white Austrian plate with black characters, red-white-red stripes along the top and bottom edges, the state coat of arms after the district code and a blue EU band with "A" on the left',
+  }),
+  eu('pl', 'Poland', 'PL', {
+    aliases: ['polska'],
+    pattern: /^[A-Z]{2,3}[A-Z0-9]{4,5}$/,
+    maxLength: 8,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: 'WX 12345',
+    description: 'white reflective Polish plate with black characters and a blue EU band with "PL" on the left',
+  }),
+  eu('pt', 'Portugal', 'P', {
+    pattern: /^[A-Z0-9]{6}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [2, 2, 2] },
+    separator: '-',
+    example: 'AA-00-AA',
+    description: 'white Portuguese plate with black characters, a blue EU band with "P" on the left and a yellow band on the right with the registration year and month',
+  }),
+  eu('ie', 'Ireland', 'IRL', {
+    aliases: ['eire', 'éire'],
+    pattern: /^\d{2,3}[A-Z]{1,2}\d{1,6}$/,
+    maxLength: 11,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: '241-D-12345',
+    description: 'white reflective Irish plate with black characters, the county name in Irish above the number, and a blue EU band with "IRL" on the left',
+  }),
+  eu('se', 'Sweden', 'S', {
+    aliases: ['sverige'],
+    pattern: /^[A-Z]{3}\d{2}[A-Z0-9]$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [3, 3] },
+    separator: ' ',
+    example: 'ABC 12D',
+    description: 'white Swedish plate with black characters and a blue EU band with "S" on the left',
+  }),
+  eu('fi', 'Finland', 'FIN', {
+    aliases: ['suomi'],
+    pattern: /^[A-Z]{2,3}\d{1,3}$/,
+    maxLength: 6,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: 'ABC-123',
+    description: 'white Finnish plate with black characters, a thin black border and a blue EU band with "FIN" on the left',
+  }),
+  eu('dk', 'Denmark', 'DK', {
+    aliases: ['danmark'],
+    pattern: /^[A-Z]{2}\d{5}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 2, 3] },
+    separator: ' ',
+    example: 'AB 12 345',
+    colors: { background: '#ffffff', text: '#111111', border: '#c8102e' },
+    description: 'white Danish plate with black characters, a red border and a blue EU band with "DK" on the left',
+  }),
+  eu('cz', 'Czechia', 'CZ', {
+    aliases: ['czech republic', 'česko', 'cesko'],
+    pattern: /^\d[A-Z][A-Z0-9]\d{4}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [3, 4] },
+    separator: ' ',
+    example: '1AB 2345',
+    description: 'white Czech plate with black characters and a blue EU band with "CZ" on the left',
+  }),
+  eu('gr', 'Greece', 'GR', {
+    aliases: ['hellas'],
+    pattern: /^[ABEHIKMNOPTXYZ]{3}\d{4}$/,
+    allowedChar: /[ABEHIKMNOPTXYZ0-9]/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [3, 4] },
+    separator: '-',
+    example: 'ABK-1234',
+    description: 'white Greek plate with black characters and a blue EU band with "GR" on the left',
+  }),
+  eu('hu', 'Hungary', 'H', {
+    aliases: ['magyarország', 'magyarorszag'],
+    pattern: /^[A-Z]{3,4}\d{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: 'ABC-123',
+    description: 'white Hungarian plate with black characters, the national coat of arms and a blue EU band with "H" on the left',
+  }),
+  eu('ro', 'Romania', 'RO', {
+    pattern: /^[A-Z]{1,2}\d{2,3}[A-Z]{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'B 123 ABC',
+    description: 'white Romanian plate with black characters and a blue EU band with "RO" on the left',
+  }),
+  eu('hr', 'Croatia', 'HR', {
+    aliases: ['hrvatska'],
+    pattern: /^[A-Z]{2}\d{3,4}[A-Z]{1,2}$/,
+    maxLength: 8,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'ZG 1234 AB',
+    description: 'white Croatian plate with black characters, the Croatian coat of arms after the city code and a blue EU band with "HR" on the left',
+  }),
+  eu('sk', 'Slovakia', 'SK', {
+    pattern: /^[A-Z]{2}\d{3}[A-Z]{2}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 3, 2] },
+    separator: ' ',
+    example: 'BA 123 AB',
+    description: 'white Slovak plate with black characters, the coat of arms and a blue EU band with "SK" on the left',
+  }),
+  eu('si', 'Slovenia', 'SLO', {
+    pattern: /^[A-Z]{2}[A-Z0-9]{5}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 5] },
+    separator: ' ',
+    example: 'LJ A123B',
+    colors: { background: '#ffffff', text: '#111111', border: '#0b6e3a' },
+    description: 'white Slovenian plate with black characters, a green border and a blue EU band with "SLO" on the left',
+  }),
+  eu('lu', 'Luxembourg', 'L', {
+    pattern: /^[A-Z]{2}\d{4}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [2, 4] },
+    separator: ' ',
+    example: 'AB 1234',
+    colors: { background: '#f7c600', text: '#111111', border: '#111111' },
+    description: 'yellow Luxembourg plate with black characters and a blue EU band with "L" on the left',
+  }),
+  eu('bg', 'Bulgaria', 'BG', {
+    allowedChar: /[ABEKMHOPCTYX0-9]/,
+    pattern: /^[ABEKMHOPCTYX]{1,2}\d{4}[ABEKMHOPCTYX]{2}$/,
+    maxLength: 8,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'CA 1234 AB',
+    description: 'white Bulgarian plate with black characters and a blue EU band with "BG" on the left',
+  }),
+  eu('lt', 'Lithuania', 'LT', {
+    pattern: /^[A-Z]{3}\d{3}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [3, 3] },
+    separator: ' ',
+    example: 'ABC 123',
+    description: 'white Lithuanian plate with black characters and a blue EU band with "LT" on the left',
+  }),
+  eu('lv', 'Latvia', 'LV', {
+    pattern: /^[A-Z]{2}\d{1,4}$/,
+    maxLength: 6,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: 'AB-1234',
+    description: 'white Latvian plate with black characters and a blue EU band with "LV" on the left',
+  }),
+  eu('ee', 'Estonia', 'EST', {
+    pattern: /^\d{3}[A-Z]{3}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [3, 3] },
+    separator: ' ',
+    example: '123 ABC',
+    description: 'white Estonian plate with black characters and a blue EU band with "EST" on the left',
+  }),
+  eu('no', 'Norway', 'N', {
+    aliases: ['norge'],
+    pattern: /^[A-Z]{2}\d{4,5}$/,
+    maxLength: 7,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'AB 12345',
+    description: 'white Norwegian plate with black characters, a thin black border and a blue band on the left with the Norwegian flag and the letter "N"',
+  }),
+  {
+    id: 'gb',
+    name: 'United Kingdom (rear)',
+    region: 'Europe',
+    aliases: ['united kingdom', 'uk', 'great britain', 'britain', 'england', 'scotland', 'wales', 'gb'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{2}[A-Z]{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [4, 3] },
+    separator: ' ',
+    example: 'AB12 CDE',
+    colors: { background: '#f7d117', text: '#111111', border: null },
+    aspectRatio: 520 / 111,
+    font: '"Charles Wright", "Arial Narrow", Arial, sans-serif',
+    description: 'yellow reflective UK rear plate with black Charles Wright characters and no border',
+  },
+  {
+    id: 'gb-front',
+    name: 'United Kingdom (front)',
+    region: 'Europe',
+    aliases: ['uk front'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{2}[A-Z]{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [4, 3] },
+    separator: ' ',
+    example: 'AB12 CDE',
+    colors: { background: '#ffffff', text: '#111111', border: null },
+    aspectRatio: 520 / 111,
+    font: '"Charles Wright", "Arial Narrow", Arial, sans-serif',
+    description: 'white reflective UK front plate with black Charles Wright characters and no border',
+  },
+  {
+    id: 'ch',
+    name: 'Switzerland',
+    region: 'Europe',
+    aliases: ['schweiz', 'suisse', 'svizzera'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{1,6}$/,
+    maxLength: 8,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'ZH 123456',
+    colors: WHITE_BLACK,
+    aspectRatio: 500 / 110,
+    font: EU_FONT,
+    description: 'white Swiss plate with black characters, the Swiss shield on the left and the canton shield on the right',
+  },
+  {
+    id: 'tr',
+    name: 'Turkey',
+    region: 'Europe',
+    aliases: ['türkiye', 'turkiye'],
+    allowedChar: LATIN,
+    pattern: /^\d{2}[A-Z]{1,3}\d{2,4}$/,
+    maxLength: 9,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: '34 ABC 123',
+    colors: WHITE_BLACK,
+    aspectRatio: EU_ASPECT,
+    font: EU_FONT,
+    description: 'white Turkish plate with black characters and a blue band on the left with the letters "TR"',
+  },
+  {
+    id: 'ru',
+    name: 'Russia',
+    region: 'Europe',
+    aliases: ['russian federation'],
+    allowedChar: /[ABEKMHOPCTYX0-9]/,
+    pattern: /^[ABEKMHOPCTYX]\d{3}[ABEKMHOPCTYX]{2}\d{2,3}$/,
+    maxLength: 9,
+    grouping: { kind: 'fixed', sizes: [1, 3, 2] },
+    separator: ' ',
+    example: 'A 123 BC 77',
+    colors: WHITE_BLACK,
+    aspectRatio: 520 / 112,
+    font: EU_FONT,
+    description: 'white Russian plate with black characters and a separate region box on the right showing the region code above a small flag and "RUS"',
+  },
+];
+
+interface StateSpec {
+  code: string;
+  name: string;
+  description?: string;
+  colors?: PlateColors;
+}
+
+const US_DEFAULT_COLORS: PlateColors = { background: '#f4f4f0', text: '#1b2a6b', border: null };
+
+const US_STATES: StateSpec[] = [
+  { code: 'al', name: 'Alabama' },
+  { code: 'ak', name: 'Alaska', colors: { background: '#ffffff', text: '#1b2a6b', border: null }, description: 'white Alaska plate with dark blue characters, "ALASKA" at the top and a gold flag graphic' },
+  { code: 'az', name: 'Arizona', colors: { background: '#f2e6c9', text: '#6b1f1f', border: null }, description: 'Arizona plate with a desert sunset and saguaro cactus background, dark red characters and "ARIZONA" at the top' },
+  { code: 'ar', name: 'Arkansas' },
+  { code: 'ca', name: 'California', colors: { background: '#ffffff', text: '#1b2a6b', border: null }, description: 'white California plate with dark blue characters and "California" in red script at the top' },
+  { code: 'co', name: 'Colorado', colors: { background: '#ffffff', text: '#0b6e3a', border: null }, description: 'white Colorado plate with green characters, white mountain silhouettes on green at the top and "COLORADO"' },
+  { code: 'ct', name: 'Connecticut' },
+  { code: 'de', name: 'Delaware', colors: { background: '#d8b869', text: '#1b2a6b', border: null }, description: 'dark blue Delaware plate with gold characters and "DELAWARE" at the top' },
+  { code: 'dc', name: 'District of Columbia', colors: { background: '#ffffff', text: '#c8102e', border: null }, description: 'white District of Columbia plate with red characters and "DISTRICT OF COLUMBIA" at the top' },
+  { code: 'fl', name: 'Florida', colors: { background: '#ffffff', text: '#0b6e3a', border: null }, description: 'white Florida plate with green characters, an orange in the middle and "Florida" at the top' },
+  { code: 'ga', name: 'Georgia' },
+  { code: 'hi', name: 'Hawaii', description: 'white Hawaii plate with a rainbow arc graphic, dark characters and "HAWAII" at the top' },
+  { code: 'id', name: 'Idaho' },
+  { code: 'il', name: 'Illinois', description: 'white Illinois plate with dark blue and red characters, an Abraham Lincoln portrait and "Illinois" at the top' },
+  { code: 'in', name: 'Indiana' },
+  { code: 'ia', name: 'Iowa' },
+  { code: 'ks', name: 'Kansas' },
+  { code: 'ky', name: 'Kentucky' },
+  { code: 'la', name: 'Louisiana' },
+  { code: 'me', name: 'Maine' },
+  { code: 'md', name: 'Maryland' },
+  { code: 'ma', name: 'Massachusetts', colors: { background: '#ffffff', text: '#c8102e', border: null }, description: 'white Massachusetts plate with red characters and "Massachusetts" in blue script at the top' },
+  { code: 'mi', name: 'Michigan' },
+  { code: 'mn', name: 'Minnesota' },
+  { code: 'ms', name: 'Mississippi' },
+  { code: 'mo', name: 'Missouri' },
+  { code: 'mt', name: 'Montana' },
+  { code: 'ne', name: 'Nebraska' },
+  { code: 'nv', name: 'Nevada' },
+  { code: 'nh', name: 'New Hampshire', colors: { background: '#ffffff', text: '#0b6e3a', border: null }, description: 'white New Hampshire plate with green characters and "LIVE FREE OR DIE" at the bottom' },
+  { code: 'nj', name: 'New Jersey', colors: { background: '#f2e6a0', text: '#111111', border: null }, description: 'yellow-to-white faded New Jersey plate with black characters and "NEW JERSEY" at the top' },
+  { code: 'nm', name: 'New Mexico', colors: { background: '#f7d117', text: '#c8102e', border: null }, description: 'yellow New Mexico plate with red characters and a red Zia sun symbol' },
+  { code: 'ny', name: 'New York', colors: { background: '#ffffff', text: '#1b2a6b', border: null }, description: 'white and gold New York "Excelsior" plate with dark blue characters and "NEW YORK" at the top' },
+  { code: 'nc', name: 'North Carolina' },
+  { code: 'nd', name: 'North Dakota' },
+  { code: 'oh', name: 'Ohio' },
+  { code: 'ok', name: 'Oklahoma' },
+  { code: 'or', name: 'Oregon', description: 'white Oregon plate with dark blue characters and a green Douglas fir tree in the middle' },
+  { code: 'pa', name: 'Pennsylvania' },
+  { code: 'ri', name: 'Rhode Island' },
+  { code: 'sc', name: 'South Carolina' },
+  { code: 'sd', name: 'South Dakota' },
+  { code: 'tn', name: 'Tennessee' },
+  { code: 'tx', name: 'Texas', colors: { background: '#ffffff', text: '#111111', border: null }, description: 'white Texas plate with black characters, "TEXAS" at the top and a small state outline between the character groups' },
+  { code: 'ut', name: 'Utah' },
+  { code: 'vt', name: 'Vermont', colors: { background: '#0b6e3a', text: '#ffffff', border: '#ffffff' }, description: 'green Vermont plate with white characters and "VERMONT" at the top' },
+  { code: 'va', name: 'Virginia' },
+  { code: 'wa', name: 'Washington' },
+  { code: 'wv', name: 'West Virginia' },
+  { code: 'wi', name: 'Wisconsin' },
+  { code: 'wy', name: 'Wyoming' },
+];
+
+const usState = ({ code, name, description, colors }: StateSpec): PlateFormat => ({
+  id: `us-${code}`,
+  name,
+  region: 'United States',
+  aliases: [`${name.toLowerCase()}, usa`, `${name.toLowerCase()} usa`, `us-${code}`],
+  allowedChar: LATIN,
+  pattern: /^[A-Z0-9]{1,8}$/,
+  maxLength: 8,
+  grouping: { kind: 'free' },
+  separator: ' ',
+  example: 'ABC 1234',
+  colors: colors || US_DEFAULT_COLORS,
+  aspectRatio: US_ASPECT,
+  font: US_FONT,
+  description: description || `standard ${name} plate with dark characters and "${name.toUpperCase()}" across the top`,
+});
+
+const AMERICAS: PlateFormat[] = [
+  {
+    id: 'us',
+    name: 'United States',
+    region: 'United States',
+    aliases: ['usa', 'us', 'america'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z0-9]{1,8}$/,
+    maxLength: 8,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: 'ABC 1234',
+    colors: US_DEFAULT_COLORS,
+    aspectRatio: US_ASPECT,
+    font: US_FONT,
+    description: 'standard 12 by 6 inch US plate with dark characters and the state name across the top',
+  },
+  ...US_STATES.map(usState),
+  {
+    id: 'ca-on',
+    name: 'Ontario',
+    region: 'North America',
+    aliases: ['ontario, canada'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{4}\d{3}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [4, 3] },
+    separator: ' ',
+    example: 'ABCD 123',
+    colors: { background: '#ffffff', text: '#1b2a6b', border: null },
+    aspectRatio: US_ASPECT,
+    font: US_FONT,
+    description: 'white Ontario plate with dark blue characters, "ONTARIO" at the top and "YOURS TO DISCOVER" at the bottom',
+  },
+  {
+    id: 'ca-qc',
+    name: 'Quebec',
+    region: 'North America',
+    aliases: ['québec', 'quebec, canada'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z0-9]{6,7}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [3, 3] },
+    separator: ' ',
+    example: 'A12 BCD',
+    colors: { background: '#ffffff', text: '#1b2a6b', border: null },
+    aspectRatio: US_ASPECT,
+    font: US_FONT,
+    description: 'white Quebec plate with dark blue characters, "QUÉBEC" with fleurs-de-lis at the top and "JE ME SOUVIENS" at the bottom',
+  },
+  {
+    id: 'ca-bc',
+    name: 'British Columbia',
+    region: 'North America',
+    aliases: ['bc', 'british columbia, canada'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z0-9]{6}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [3, 3] },
+    separator: ' ',
+    example: 'AB1 23C',
+    colors: { background: '#ffffff', text: '#1b2a6b', border: null },
+    aspectRatio: US_ASPECT,
+    font: US_FONT,
+    description: 'white British Columbia plate with dark blue characters, a sunset and flag graphic at the top and "BEAUTIFUL BRITISH COLUMBIA" at the bottom',
+  },
+  {
+    id: 'mx',
+    name: 'Mexico',
+    region: 'North America',
+    aliases: ['méxico'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z0-9]{6,7}$/,
+    maxLength: 7,
+    grouping: { kind: 'alphanumeric' },
+    separator: '-',
+    example: 'ABC-123-D',
+    colors: { background: '#ffffff', text: '#111111', border: null },
+    aspectRatio: US_ASPECT,
+    font: US_FONT,
+    description: 'white Mexican plate with black characters, the state name at the top and "MÉXICO" at the bottom',
+  },
+  {
+    id: 'br',
+    name: 'Brazil',
+    region: 'South America',
+    aliases: ['brasil'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{3}\d[A-Z0-9]\d{2}$/,
+    maxLength: 7,
+    grouping: { kind: 'free' },
+    separator: '',
+    example: 'ABC1D23',
+    colors: WHITE_BLACK,
+    aspectRatio: 400 / 130,
+    font: FE_FONT,
+    description: 'white Mercosur plate with black FE-Schrift characters and a blue band across the top reading "BRASIL" with the Mercosur logo and Brazilian flag',
+  },
+  {
+    id: 'ar',
+    name: 'Argentina',
+    region: 'South America',
+    allowedChar: LATIN,
+    aliases: [],
+    pattern: /^[A-Z]{2}\d{3}[A-Z]{2}$/,
+    maxLength: 7,
+    grouping: { kind: 'fixed', sizes: [2, 3, 2] },
+    separator: ' ',
+    example: 'AB 123 CD',
+    colors: WHITE_BLACK,
+    aspectRatio: 400 / 130,
+    font: FE_FONT,
+    description: 'white Mercosur plate with black characters and a blue band across the top reading "REPUBLICA ARGENTINA" with the Mercosur logo and Argentine flag',
+  },
+];
+
+const REST_OF_WORLD: PlateFormat[] = [
+  {
+    id: 'jp',
+    name: 'Japan',
+    region: 'Asia',
+    aliases: ['nippon'],
+    allowedChar: /[0-9A-Z\u3040-\u30FF\u4E00-\u9FFF]/,
+    pattern: /^[\s\S]{1,12}$/,
+    maxLength: 12,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: '品川 300 あ 1234',
+    colors: { background: '#ffffff', text: '#0b5d2a', border: '#0b5d2a' },
+    aspectRatio: 330 / 165,
+    font: '"Noto Sans JP", Arial, sans-serif',
+    description: 'white Japanese plate with green characters and a thin green border: the office name and class number on the top line, a hiragana character and the large serial number on the bottom line',
+  },
+  {
+    id: 'kr',
+    name: 'South Korea',
+    region: 'Asia',
+    aliases: ['korea'],
+    allowedChar: /[0-9\uAC00-\uD7A3]/,
+    pattern: /^\d{2,3}[\uAC00-\uD7A3]\d{4}$/,
+    maxLength: 8,
+    grouping: { kind: 'free' },
+    separator: ' ',
+    example: '12가 3456',
+    colors: WHITE_BLACK,
+    aspectRatio: 520 / 110,
+    font: '"Noto Sans KR", Arial, sans-serif',
+    description: 'white South Korean plate with black characters, a small blue band with a Taegeuk symbol on the left',
+  },
+  {
+    id: 'cn',
+    name: 'China',
+    region: 'Asia',
+    aliases: ['prc'],
+    allowedChar: /[A-Z0-9\u4E00-\u9FFF]/,
+    pattern: /^[\u4E00-\u9FFF][A-Z][A-Z0-9]{5,6}$/,
+    maxLength: 8,
+    grouping: { kind: 'fixed', sizes: [2] },
+    separator: '·',
+    example: '京A·12345',
+    colors: { background: '#1f4fa0', text: '#ffffff', border: '#ffffff' },
+    aspectRatio: 440 / 140,
+    font: '"Noto Sans SC", Arial, sans-serif',
+    description: 'blue Chinese plate with white characters and a thin white border, the province character and city letter followed by a dot and the serial',
+  },
+  {
+    id: 'in',
+    name: 'India',
+    region: 'Asia',
+    aliases: ['bharat'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{1,2}[A-Z]{0,3}\d{1,4}$/,
+    maxLength: 10,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'MH 12 AB 1234',
+    colors: WHITE_BLACK,
+    aspectRatio: 500 / 120,
+    font: EU_FONT,
+    description: 'white Indian high-security plate with black characters, a chromium hologram at the top left and "IND" in blue on the left edge',
+  },
+  {
+    id: 'ae',
+    name: 'United Arab Emirates (Dubai)',
+    region: 'Middle East',
+    aliases: ['uae', 'dubai', 'united arab emirates'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{1,2}\d{1,5}$/,
+    maxLength: 7,
+    grouping: { kind: 'alphanumeric' },
+    separator: ' ',
+    example: 'A 12345',
+    colors: WHITE_BLACK,
+    aspectRatio: EU_ASPECT,
+    font: EU_FONT,
+    description: 'white Dubai plate with black characters, the category letter on the left and "DUBAI" with the emirate emblem',
+  },
+  {
+    id: 'za',
+    name: 'South Africa (Gauteng)',
+    region: 'Africa',
+    aliases: ['south africa', 'gauteng'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{2}[A-Z]{2}GP$/,
+    maxLength: 8,
+    grouping: { kind: 'fixed', sizes: [2, 2, 2, 2] },
+    separator: ' ',
+    example: 'AB 12 CD GP',
+    colors: { background: '#f2f2e8', text: '#111111', border: '#111111' },
+    aspectRatio: 520 / 113,
+    font: EU_FONT,
+    description: 'Gauteng plate with black characters on a pale background with a faint skyline graphic and "GAUTENG" at the bottom',
+  },
+  {
+    id: 'au',
+    name: 'Australia (New South Wales)',
+    region: 'Oceania',
+    aliases: ['australia', 'nsw', 'new south wales'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z]{2}\d{2}[A-Z]{2}$/,
+    maxLength: 6,
+    grouping: { kind: 'fixed', sizes: [2, 2, 2] },
+    separator: '-',
+    example: 'AB-12-CD',
+    colors: { background: '#ffd200', text: '#111111', border: '#111111' },
+    aspectRatio: 372 / 134,
+    font: US_FONT,
+    description: 'yellow New South Wales plate with black characters, a black border and "NSW" at the bottom',
+  },
+  {
+    id: 'nz',
+    name: 'New Zealand',
+    region: 'Oceania',
+    aliases: ['aotearoa'],
+    allowedChar: LATIN,
+    pattern: /^[A-Z0-9]{1,6}$/,
+    maxLength: 6,
+    grouping: { kind: 'free' },
+    separator: '',
+    example: 'ABC123',
+    colors: WHITE_BLACK,
+    aspectRatio: 360 / 125,
+    font: US_FONT,
+    description: 'white New Zealand plate with black characters and a thin black border',
+  },
+];
+
+export const PLATE_FORMATS: PlateFormat[] = [...EUROPE, ...AMERICAS, ...REST_OF_WORLD];
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Resolves a free-text country or state name (or registry id) to a format.
+ */
+export const findPlateFormat = (plateCountry: string): PlateFormat | null => {
+  const key = normalizeKey(plateCountry);
+  if (!key) return null;
+
+  return PLATE_FORMATS.find(format =>
+    format.id === key || normalizeKey(format.name) === key || format.aliases.includes(key)
+  ) || null;
+};
+
+/**
+ * Case-insensitive search over names, aliases and ids, used by the picker.
+ */
+export const searchPlateFormats = (query: string): PlateFormat[] => {
+  const key = normalizeKey(query);
+  if (!key) return PLATE_FORMATS;
+
+  const matches = PLATE_FORMATS.filter(format =>
+    format.name.toLowerCase().includes(key) ||
+    format.id === key ||
+    format.aliases.some(alias => alias.includes(key))
+  );
+
+  // Names that start with the query come first.
+  return matches.sort((a, b) => Number(!a.name.toLowerCase().startsWith(key)) - Number(!b.name.toLowerCase().startsWith(key)));
+};
+
+const SEPARATOR_CHARS = /[\s\-·.]+/g;
+
+/** Strips separators and disallowed characters, leaving only plate characters. */
+export const compactPlateNumber = (value: string, format: PlateFormat): string =>
+  Array.from(value.toUpperCase()).filter(ch => format.allowedChar.test(ch)).join('');
+
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+/**
+ * Auto-formats user input against the format: uppercases, drops characters
+ * the format never uses, caps the length and places separators.
+ */
+export const formatPlateNumber = (value: string, format: PlateFormat): string => {
+  const trailingSeparator = /[\s\-·.]$/.test(value);
+
+  if (format.grouping.kind === 'free') {
+    // Keep the user's grouping but normalize separators to the format's own.
+    const groups = value.toUpperCase().split(SEPARATOR_CHARS).map(group => compactPlateNumber(group, format)).filter(Boolean);
+    let remaining = format.maxLength;
+    const kept: string[] = [];
+    for (const group of groups) {
+      if (remaining <= 0) break;
+      kept.push(group.slice(0, remaining));
+      remaining -= group.length;
+    }
+    const separator = format.separator || '';
+    const joined = kept.join(separator);
+    return trailingSeparator && separator && remaining > 0 && joined ? joined + separator : joined;
+  }
+
+  const compact = compactPlateNumber(value, format).slice(0, format.maxLength);
+  const chars = Array.from(compact);
+  const groups: string[] = [];
+
+  if (format.grouping.kind === 'fixed') {
+    let position = 0;
+    for (const size of format.grouping.sizes) {
+      if (position >= chars.length) break;
+      groups.push(chars.slice(position, position + size).join(''));
+      position += size;
+    }
+    if (position < chars.length) groups.push(chars.slice(position).join(''));
+  } else {
+    for (const ch of chars) {
+      const last = groups[groups.length - 1];
+      if (last && isDigit(last[last.length - 1]) === isDigit(ch)) {
+        groups[groups.length - 1] = last + ch;
+      } else {
+        groups.push(ch);
+      }
+    }
+  }
+
+  return groups.join(format.separator);
+};
+
+/**
+ * Returns a user-facing error if the number does not fit the format, or null if it does.
+ */
+export const validatePlateNumber = (value: string, format: PlateFormat): string | null => {
+  const compact = compactPlateNumber(value, format);
+  if (!compact) return null;
+  if (!format.pattern.test(compact)) {
+    return `Doesn't match the ${format.name} format (e.g. ${format.example}).`;
+  }
+  return null;
+};
+
+/**
+ * Prompt fragment describing the plate design for the edit model.
+ */
+export const describePlateFormat = (format: PlateFormat): string => {
+  const ratio = Math.round(format.aspectRatio * 10) / 10;
+  return `Use the standard ${format.name} plate design: ${format.description}. The plate is about ${ratio} times as wide as it is tall.`;
+};
@@ -0,0 +1,48 @@
+import { findPlateFormat } from './plateFormats';
+
+/**
+ * Visual templates used by the local composite renderer.
+ */
+export interface PlateTemplate {
+  id: string;
+  background: string;
+  textColor: string;
+  borderColor: string | null;
+  /** Border thickness as a fraction of plate height. */
+  borderWidth: number;
+  fontFamily: string;
+  /** Plate width divided by plate height. */
+  aspectRatio: number;
+  /** Blue EU identifier band on the left edge. */
+  euBand?: string;
+}
+
+const GENERIC_TEMPLATE: PlateTemplate = {
+  id: 'generic',
+  background: '#ffffff',
+  textColor: '#111111',
+  borderColor: '#111111',
+  borderWidth: 0.04,
+  fontFamily: 'Arial, sans-serif',
+  aspectRatio: 4.5,
+};
+
+/**
+ * Builds the template from the plate format registry, falling back to a plain
+ * white plate for countries the registry does not know.
+ */
+export const getPlateTemplate = (plateCountry: string): PlateTemplate => {
+  const format = findPlateFormat(plateCountry);
+  if (!format) return GENERIC_TEMPLATE;
+
+  return {
+    id: format.id,
+    background: format.colors.background,
+    textColor: format.colors.text,
+    borderColor: format.colors.border,
+    borderWidth: format.colors.border ? 0.035 : 0,
+    fontFamily: format.font,
+    aspectRatio: format.aspectRatio,
+    euBand: format.euBand,
+  };
+};
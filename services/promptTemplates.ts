@@ -0,0 +1,226 @@
+import { describePlateFormat, PlateFormat } from './plateFormats';
+import {
+  DetectedVehicle,
+  PlateCondition,
+  PlateFont,
+  PlateFrame,
+  PlateKind,
+  PlatePosition,
+  PlateQuad,
+  PlateStyle,
+} from '../types';
+
+export const DEFAULT_PLATE_STYLE: PlateStyle = {
+  kind: 'standard',
+  condition: 'new',
+  frame: 'none',
+  dealerName: '',
+  stickers: false,
+  font: 'standard',
+};
+
+/**
+ * Vanity and temporary plates carry text outside the country's numbering
+ * scheme, so it is neither formatted nor validated against it.
+ */
+export const followsNumberFormat = (style: PlateStyle) => style.kind !== 'vanity' && style.kind !== 'temporary';
+
+/** Wear that makes characters harder to read, where OCR may mistake lookalikes. */
+export const isWorn = (style: PlateStyle) => style.condition !== 'new' || style.kind === 'temporary';
+
+export type TemplateValues = Record<string, string>;
+
+/**
+ * Replaces every {name} placeholder in a single pass, so braces inside the
+ * values are left alone. A placeholder without a value is a bug and throws
+ * rather than reaching the model.
+ */
+export const fillTemplate = (template: string, values: TemplateValues = {}): string =>
+  template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`Prompt template is missing a value for {${name}}.`);
+    }
+    return values[name];
+  });
+
+const EDIT_TEMPLATE = `Edit this image. {action}
+The license plate text must be strictly "{plateNumber}".
+{legibility}
+Maintain the exact perspective, lighting, shadows, and reflection of the original car and bumper.
+Do not modify any other part of the car or the background. High quality, photorealistic.`;
+
+const ACTION_TEMPLATES = {
+  addAtPosition: 'The {position} of the car in this image does not have a license plate. Add {plate} to the {position} bumper.',
+  addToTarget: 'The car in this image does not have a license plate. Add {plate}.',
+  add: 'The car in this image does not have a license plate. Add {plate} to the front bumper (or rear bumper if the rear is visible).',
+  replaceAtPosition: 'Replace the existing license plate on the {position} of the car with {plate}.',
+  replace: 'Replace the existing license plate on the car with {plate}.',
+};
+
+const POSITION_ONLY_TEMPLATE = 'This edit is for the {position} plate only. Leave the {otherPosition} of the car, including any plate on it, unchanged.';
+
+const PLATE_TEMPLATES: Record<PlateKind, string> = {
+  standard: 'a realistic {country} license plate',
+  vanity: 'a realistic {country} personalized (vanity) license plate',
+  temporary: 'a realistic {country} temporary paper registration plate',
+  motorcycle: 'a realistic {country} motorcycle license plate',
+};
+
+const KIND_TEMPLATES: Record<PlateKind, string | null> = {
+  standard: null,
+  vanity: 'The text is a custom registration chosen by the owner and does not follow the usual numbering format. Print it exactly as given.',
+  temporary: 'Instead of a metal plate, show a printed paper permit taped inside a clear sleeve where the plate would be, with the registration in large bold print and an expiry date in small print below it.',
+  motorcycle: 'Use the smaller motorcycle plate size, which is squarer than a car plate and may split the text over two lines.',
+};
+
+const MOTORCYCLE_FORMAT_TEMPLATE = 'Use the {formatName} colours and lettering: {formatDescription}.';
+
+const FONT_TEMPLATES: Record<PlateFont, string | null> = {
+  standard: null,
+  embossed: 'The characters are embossed, raised from the plate, and catch the light along their edges.',
+  flat: 'The characters are flat-printed with no embossing.',
+};
+
+const CONDITION_TEMPLATES: Record<PlateCondition, string | null> = {
+  new: null,
+  weathered: 'The plate is several years old, with slightly faded colours, fine scratches and a dulled reflective coating.',
+  dirty: 'The plate is dirty, with road grime and dried mud spatter that gets heavier towards the bottom edge.',
+  dented: 'The plate is slightly bent and dented, as if from a minor parking bump, and the characters follow the bends in the metal.',
+};
+
+const FRAME_TEMPLATES: Record<PlateFrame, string | null> = {
+  none: null,
+  plain: 'Mount the plate in a thin black plastic frame.',
+  dealer: 'Mount the plate in a chrome dealer frame with "{dealerName}" printed in small letters on its bottom bar.',
+};
+
+const UNNAMED_DEALER_TEMPLATE = 'Mount the plate in a chrome dealer frame with a small dealership name printed on its bottom bar.';
+
+const STICKERS_TEMPLATE = 'Add small registration and inspection stickers in the top corners of the plate, clear of the characters.';
+
+const LEGIBILITY_TEMPLATES = {
+  clean: 'Ensure the text is sharp, legible, and perfectly spelled.',
+  worn: 'The wear must not hide any character: the text stays fully legible and perfectly spelled.',
+};
+
+const REGION_TEMPLATE = '{subject} exactly inside the quadrilateral with these corners, given as (x, y) percentages of the image width and height measured from the top-left: top-left {topLeft}, top-right {topRight}, bottom-right {bottomRight}, bottom-left {bottomLeft}. The plate must fill this quadrilateral and follow its perspective. Do not place or change a plate anywhere else.';
+
+const REGION_SUBJECTS = {
+  add: 'The new license plate must be placed',
+  replace: 'The existing license plate is located',
+};
+
+const VEHICLE_TEMPLATE = 'There are several vehicles in this image. Only edit the {label} whose bounding box spans from {from} to {to}, given as (x, y) percentages of the image width and height measured from the top-left. Leave every other vehicle and its plate exactly as it is.';
+
+const CROP_TEMPLATE = 'This is a close-up crop of a larger photo. Keep the framing exactly as it is: do not zoom, pan, rotate or resize anything.';
+
+const FOLLOW_UP_TEMPLATE = `Edit this image, which shows a car with its license plate already in place. {instruction}
+The license plate text must be strictly "{plateNumber}". {legibility}
+Change only what the instruction asks for. Keep the framing, the image size and everything else in the image exactly as it is. High quality, photorealistic.`;
+
+const toPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const toPoint = (x: number, y: number) => `(${toPercent(x)}, ${toPercent(y)})`;
+
+/**
+ * Describes the user-drawn quad in words the edit model can follow.
+ */
+const describeRegion = (region: PlateQuad, mode: 'add' | 'replace'): string => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = region.map(p => toPoint(p.x, p.y));
+  return fillTemplate(REGION_TEMPLATE, { subject: REGION_SUBJECTS[mode], topLeft, topRight, bottomRight, bottomLeft });
+};
+
+/**
+ * Points the edit model at one vehicle in a scene with several.
+ */
+const describeVehicle = (vehicle: DetectedVehicle): string => {
+  const { box } = vehicle;
+  return fillTemplate(VEHICLE_TEMPLATE, {
+    label: vehicle.label,
+    from: toPoint(box.x, box.y),
+    to: toPoint(box.x + box.width, box.y + box.height),
+  });
+};
+
+/** The plate design, adjusted for kinds that do not look like the country's standard plate. */
+const describeDesign = (format: PlateFormat | null, kind: PlateKind): string | null => {
+  if (!format || kind === 'temporary') return null;
+  if (kind === 'motorcycle') {
+    return fillTemplate(MOTORCYCLE_FORMAT_TEMPLATE, { formatName: format.name, formatDescription: format.description });
+  }
+  return describePlateFormat(format);
+};
+
+/** Style sentences, in the order the model should apply them. */
+const describeStyle = (style: PlateStyle): (string | null)[] => [
+  KIND_TEMPLATES[style.kind],
+  FONT_TEMPLATES[style.font],
+  CONDITION_TEMPLATES[style.condition],
+  style.frame === 'dealer' && !style.dealerName.trim()
+    ? UNNAMED_DEALER_TEMPLATE
+    : FRAME_TEMPLATES[style.frame] && fillTemplate(FRAME_TEMPLATES[style.frame]!, { dealerName: style.dealerName.trim() }),
+  style.stickers ? STICKERS_TEMPLATE : null,
+];
+
+export interface EditPromptSpec {
+  mode: 'add' | 'replace';
+  plateNumber: string;
+  plateCountry: string;
+  plateFormat: PlateFormat | null;
+  style: PlateStyle;
+  /** Set when only the front or rear plate is edited. */
+  position: PlatePosition | null;
+  /** The plate's location is already pinned down by a region or a selected vehicle. */
+  targeted: boolean;
+  /** Region to describe, in the coordinates of the image sent to the model. */
+  region: PlateQuad | null;
+  /** Vehicle to describe when the full image is sent. */
+  vehicle: DetectedVehicle | null;
+  /** The model sees a crop around the plate rather than the full photo. */
+  isCrop: boolean;
+}
+
+/**
+ * Assembles the edit prompt for one plate from the templates above.
+ */
+export const buildEditPrompt = (spec: EditPromptSpec): string => {
+  const { mode, position, style } = spec;
+  const values: TemplateValues = {
+    plate: fillTemplate(PLATE_TEMPLATES[style.kind], { country: spec.plateCountry }),
+    position: position ?? '',
+  };
+
+  const action = mode === 'add'
+    ? position ? ACTION_TEMPLATES.addAtPosition : spec.targeted ? ACTION_TEMPLATES.addToTarget : ACTION_TEMPLATES.add
+    : position ? ACTION_TEMPLATES.replaceAtPosition : ACTION_TEMPLATES.replace;
+
+  const sentences = [
+    fillTemplate(action, values),
+    position && fillTemplate(POSITION_ONLY_TEMPLATE, { position, otherPosition: position === 'front' ? 'rear' : 'front' }),
+    describeDesign(spec.plateFormat, style.kind),
+    ...describeStyle(style),
+    spec.vehicle && describeVehicle(spec.vehicle),
+    spec.region && describeRegion(spec.region, mode),
+    spec.isCrop ? CROP_TEMPLATE : null,
+  ];
+
+  return fillTemplate(EDIT_TEMPLATE, {
+    action: sentences.filter(Boolean).join(' '),
+    plateNumber: spec.plateNumber,
+    legibility: isWorn(style) ? LEGIBILITY_TEMPLATES.worn : LEGIBILITY_TEMPLATES.clean,
+  });
+};
+
+/**
+ * Prompt for a follow-up instruction on an existing result. The plate text is
+ * restated so the model does not drift from it while making the change.
+ */
+export const buildFollowUpPrompt = (instruction: string, plateNumbers: string[], style: PlateStyle): string => {
+  const trimmed = instruction.trim();
+  const sentence = (trimmed.charAt(0).toUpperCase() + trimmed.slice(1)).replace(/([^.!?])$/, '$1.');
+  return fillTemplate(FOLLOW_UP_TEMPLATE, {
+    instruction: sentence,
+    plateNumber: plateNumbers.join('" and "'),
+    legibility: isWorn(style) ? LEGIBILITY_TEMPLATES.worn : LEGIBILITY_TEMPLATES.clean,
+  });
+};
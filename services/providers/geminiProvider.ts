@@ -0,0 +1,185 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { throwIfAborted } from '../abort';
+import { classifyError, MissingApiKeyError, NoImageReturnedError, SafetyBlockedError } from '../errors';
+import { BoundingBox } from '../../types';
+import { ImageModelProvider, ProviderCallOptions, VehicleDetection } from './types';
+
+const DETECTION_MODEL = 'gemini-2.5-flash';
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+const OCR_MODEL = 'gemini-2.5-flash';
+
+const toInlineData = (imageBase64: string, fallbackMimeType: string) => ({
+  data: imageBase64.split(',')[1],
+  mimeType: imageBase64.match(/data:([^;]+);/)?.[1] || fallbackMimeType,
+});
+
+const BOX_SCHEMA = { type: Type.ARRAY, items: { type: Type.INTEGER } };
+
+const VEHICLE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING },
+      box_2d: BOX_SCHEMA,
+      plate_box_2d: { ...BOX_SCHEMA, nullable: true },
+    },
+    required: ['label', 'box_2d'],
+  },
+};
+
+/**
+ * Converts Gemini's [ymin, xmin, ymax, xmax] box on a 0-1000 grid into a normalized box.
+ */
+const fromBox2d = (box: unknown): BoundingBox | null => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(v => typeof v === 'number')) return null;
+  const [ymin, xmin, ymax, xmax] = box.map(v => Math.min(1000, Math.max(0, v)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+/**
+ * Throws SafetyBlockedError when the prompt or the first candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`The request was blocked by the model (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockedError(`The response was blocked by the model (${finishReason}).`);
+  }
+};
+
+export interface GeminiProviderOptions {
+  /** Overrides the API endpoint, e.g. to point at a local stand-in server. */
+  baseUrl?: string;
+}
+
+/**
+ * Provider backed by the Google Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string | undefined, options: GeminiProviderOptions = {}): ImageModelProvider => {
+  if (!apiKey) {
+    throw new MissingApiKeyError();
+  }
+
+  const ai = new GoogleGenAI({ apiKey, ...(options.baseUrl ? { httpOptions: { baseUrl: options.baseUrl } } : {}) });
+
+  const generate = async (params: GenerateContentParameters, options: ProviderCallOptions) => {
+    const { signal, onUsage } = options;
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+    } catch (e) {
+      throwIfAborted(signal);
+      throw classifyError(e);
+    }
+    throwIfAborted(signal);
+    onUsage?.({
+      model: params.model,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? null,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? null,
+    });
+    assertNotBlocked(response);
+    return response;
+  };
+
+  return {
+    name: 'gemini',
+
+    async detectPlate(imageBase64, options = {}) {
+      const response = await generate({
+        model: DETECTION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: toInlineData(imageBase64, 'image/jpeg') },
+            {
+              text: options.position
+                ? `Analyze the ${options.position} bumper of the car in this image. Look specifically for an oblong, rectangular, or square object mounted on the ${options.position} bumper where a license plate is typically found. Is there a license plate present on the ${options.position} of the car? If the ${options.position} of the car is not visible, answer NO. Answer strictly with YES or NO.`
+                : "Analyze the front and rear bumpers of the car in this image. Look specifically for an oblong, rectangular, or square object mounted on the bumper where a license plate is typically found. Is there a license plate present? Answer strictly with YES or NO.",
+            },
+          ],
+        },
+      }, options);
+
+      const text = response.text?.trim().toUpperCase() || '';
+      return text.includes('YES');
+    },
+
+    async detectVehicles(imageBase64, options = {}) {
+      const response = await generate({
+        model: DETECTION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: toInlineData(imageBase64, 'image/jpeg') },
+            {
+              text: "Detect every car, van, truck and motorcycle in this image. For each one give a short label (colour and body type, e.g. \"red hatchback\"), its bounding box as box_2d, and the bounding box of its license plate as plate_box_2d, or null if no plate is visible. Boxes are [ymin, xmin, ymax, xmax] scaled to 0-1000.",
+            },
+          ],
+        },
+        config: { responseMimeType: 'application/json', responseSchema: VEHICLE_SCHEMA },
+      }, options);
+
+      let items: unknown;
+      try {
+        items = JSON.parse(response.text || '[]');
+      } catch {
+        return [];
+      }
+      if (!Array.isArray(items)) return [];
+
+      const vehicles: VehicleDetection[] = [];
+      for (const item of items) {
+        const box = fromBox2d(item?.box_2d);
+        if (!box) continue;
+        vehicles.push({ label: String(item.label || 'vehicle'), box, plate: fromBox2d(item.plate_box_2d) });
+      }
+      return vehicles;
+    },
+
+    async editImage(imageBase64, prompt, options = {}) {
+      const response = await generate({
+        model: EDIT_MODEL,
+        contents: {
+          parts: [
+            { inlineData: toInlineData(imageBase64, 'image/jpeg') },
+            { text: prompt },
+          ],
+        },
+      }, options);
+
+      const parts = response.candidates?.[0]?.content?.parts;
+      if (parts) {
+        for (const part of parts) {
+          if (part.inlineData && part.inlineData.data) {
+            return `data:image/png;base64,${part.inlineData.data}`;
+          }
+        }
+      }
+
+      throw new NoImageReturnedError();
+    },
+
+    async readPlateText(imageBase64, options = {}) {
+      const response = await generate({
+        model: OCR_MODEL,
+        contents: {
+          parts: [
+            { inlineData: toInlineData(imageBase64, 'image/png') },
+            {
+              text: options.position
+                ? `Read the license plate text from the ${options.position} plate of this car only, ignoring any plate on the ${options.position === 'front' ? 'rear' : 'front'}. Return ONLY the alphanumeric characters found on that plate. Ignore country names, slogans, plate frames, stickers, or small print.`
+                : "Read the license plate text from this car. Return ONLY the alphanumeric characters found on the plate. Ignore country names, slogans, plate frames, stickers, or small print.",
+            },
+          ],
+        },
+      }, options);
+
+      return response.text || '';
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { ImageModelProvider, ImageProviderName } from './types';
+
+export type { ImageModelProvider, ImageProviderName, ModelUsage, PlateQueryOptions, ProviderCallOptions, VehicleDetection } from './types';
+export { createGeminiProvider } from './geminiProvider';
+export type { GeminiProviderOptions } from './geminiProvider';
+export { createMockProvider } from './mockProvider';
+export { createProxyProvider } from './proxyProvider';
+export type { MockProviderOptions } from './mockProvider';
+
+let activeProvider: ImageModelProvider | null = null;
+
+const createConfiguredProvider = (): ImageModelProvider => {
+  const name = (process.env.IMAGE_PROVIDER || 'proxy') as ImageProviderName;
+
+  switch (name) {
+    case 'proxy':
+      return createProxyProvider(process.env.API_BASE_URL || undefined);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      // Direct calls need the API key in the client; see vite.config.ts.
+      return createGeminiProvider(process.env.API_KEY, { baseUrl: process.env.GEMINI_BASE_URL || undefined });
+    default:
+      throw new Error(`Unknown image provider "${name}".`);
+  }
+};
+
+/**
+ * Returns the provider selected by the IMAGE_PROVIDER setting ('proxy' by default).
+ * Throws if the selected provider is missing its configuration, e.g. an API key.
+ */
+export const getImageProvider = (): ImageModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the configured provider, e.g. with a mock in tests. Pass null to reset.
+ */
+export const setImageProvider = (provider: ImageModelProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,78 @@
+import { abortableDelay } from '../abort';
+import { ImageModelProvider, ModelUsage, VehicleDetection } from './types';
+
+// 1x1 opaque grey PNG, used as the canned "edited" image.
+const CANNED_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGNoaGgAAAMEAYFL09IQAAAAAElFTkSuQmCC';
+
+export interface MockProviderOptions {
+  /** Answer returned by plate detection. Defaults to false. */
+  hasPlate?: boolean;
+  /**
+   * Vehicles returned by detection. Defaults to one centred car, carrying a
+   * plate when `hasPlate` is set.
+   */
+  vehicles?: VehicleDetection[];
+  /** Image returned by every edit. Defaults to a 1x1 grey PNG. */
+  editedImage?: string;
+  /**
+   * Text returned by OCR. When omitted, OCR echoes the plate text requested
+   * in the prompt that produced the image, so verification passes.
+   */
+  ocrText?: string;
+  /** Simulated latency per call in milliseconds, so cancellation can be exercised. Defaults to 0. */
+  delayMs?: number;
+}
+
+const MOCK_USAGE: ModelUsage = { model: 'mock', inputTokens: null, outputTokens: null };
+
+/**
+ * Deterministic offline provider. Makes no network calls, which lets the full
+ * add/replace/verify pipeline run locally and in tests.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): ImageModelProvider => {
+  const editedImage = options.editedImage || CANNED_IMAGE;
+  const delayMs = options.delayMs ?? 0;
+  let lastRequestedText = '';
+  // Text requested per plate position, for front-and-rear generations.
+  const requestedByPosition: Record<string, string> = {};
+  // Set when the last edit asked for the plate to be removed, so detection on its output finds none.
+  let lastEditRemovedPlate = false;
+
+  return {
+    name: 'mock',
+
+    async detectPlate(imageBase64, callOptions = {}) {
+      await abortableDelay(delayMs, callOptions.signal);
+      callOptions.onUsage?.(MOCK_USAGE);
+      if (lastEditRemovedPlate && imageBase64 === editedImage) return false;
+      return options.hasPlate ?? false;
+    },
+
+    async detectVehicles(_imageBase64, callOptions = {}) {
+      await abortableDelay(delayMs, callOptions.signal);
+      callOptions.onUsage?.(MOCK_USAGE);
+      return options.vehicles ?? [{
+        label: 'car',
+        box: { x: 0.2, y: 0.3, width: 0.6, height: 0.5 },
+        plate: options.hasPlate ? { x: 0.42, y: 0.7, width: 0.16, height: 0.06 } : null,
+      }];
+    },
+
+    async editImage(_imageBase64, prompt, callOptions = {}) {
+      await abortableDelay(delayMs, callOptions.signal);
+      callOptions.onUsage?.(MOCK_USAGE);
+      lastRequestedText = prompt.match(/text must be strictly "([^"]*)"/)?.[1] || '';
+      lastEditRemovedPlate = /Remove the license plate/.test(prompt);
+      const position = prompt.match(/This edit is for the (front|rear) plate only/)?.[1];
+      if (position) requestedByPosition[position] = lastRequestedText;
+      return editedImage;
+    },
+
+    async readPlateText(_imageBase64, callOptions = {}) {
+      await abortableDelay(delayMs, callOptions.signal);
+      callOptions.onUsage?.(MOCK_USAGE);
+      const requested = callOptions.position ? requestedByPosition[callOptions.position] : undefined;
+      return options.ocrText ?? requested ?? lastRequestedText;
+    },
+  };
+};
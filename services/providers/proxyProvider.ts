@@ -0,0 +1,67 @@
+import { throwIfAborted } from '../abort';
+import { classifyError, deserializeError, SerializedError, ServiceUnavailableError } from '../errors';
+import { ImageModelProvider, ModelUsage, ProviderCallOptions, VehicleDetection } from './types';
+
+/**
+ * Provider that forwards every call to the PlateMorph API server, which holds
+ * the Gemini API key. Nothing secret is needed in the browser.
+ */
+export const createProxyProvider = (baseUrl = '/api'): ImageModelProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  /** Every response carries the usage of the model call the server made for it. */
+  const post = async <T>(endpoint: string, body: object, options: ProviderCallOptions): Promise<T> => {
+    const { signal, onUsage } = options;
+    let response: Response;
+    try {
+      response = await fetch(`${root}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (e) {
+      throwIfAborted(signal);
+      throw new ServiceUnavailableError("Could not reach the PlateMorph API server. Is it running?", { cause: e });
+    }
+
+    const payload = await response.json().catch(() => null);
+    throwIfAborted(signal);
+    if (!response.ok) {
+      const error = (payload as { error?: SerializedError } | null)?.error;
+      if (error?.kind && error.message) throw deserializeError(error);
+      throw classifyError(Object.assign(new Error(`The API server responded with status ${response.status}.`), { status: response.status }));
+    }
+    // An empty or non-JSON body, e.g. from a proxy in front of the server, is retried like an outage.
+    if (typeof payload !== 'object' || payload === null) {
+      throw new ServiceUnavailableError("The API server returned an invalid response.");
+    }
+    const usage = (payload as { usage?: ModelUsage } | null)?.usage;
+    if (usage) onUsage?.(usage);
+    return payload as T;
+  };
+
+  return {
+    name: 'proxy',
+
+    async detectPlate(imageBase64, options = {}) {
+      const { hasPlate } = await post<{ hasPlate: boolean }>('detect-plate', { image: imageBase64, position: options.position }, options);
+      return hasPlate;
+    },
+
+    async detectVehicles(imageBase64, options = {}) {
+      const { vehicles } = await post<{ vehicles: VehicleDetection[] }>('detect-vehicles', { image: imageBase64 }, options);
+      return vehicles;
+    },
+
+    async editImage(imageBase64, prompt, options = {}) {
+      const { image } = await post<{ image: string }>('generate', { image: imageBase64, prompt }, options);
+      return image;
+    },
+
+    async readPlateText(imageBase64, options = {}) {
+      const { text } = await post<{ text: string }>('verify', { image: imageBase64, position: options.position }, options);
+      return text;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import { DetectedVehicle, PlatePosition } from '../../types';
+
+/**
+ * Contract every image-model backend implements. The generation pipeline in
+ * geminiService only talks to this interface, so backends can be swapped
+ * through configuration without touching the add/replace/verify logic.
+ */
+export interface ImageModelProvider {
+  readonly name: string;
+
+  /**
+   * Returns true if the car in the image already carries a license plate,
+   * or, with `position`, a plate at that end of the car.
+   */
+  detectPlate(imageBase64: string, options?: PlateQueryOptions): Promise<boolean>;
+
+  /**
+   * Lists every vehicle in the image with its bounding box and, if visible, its plate.
+   */
+  detectVehicles(imageBase64: string, options?: ProviderCallOptions): Promise<VehicleDetection[]>;
+
+  /**
+   * Applies the edit described by the prompt and returns the result as a data URL.
+   */
+  editImage(imageBase64: string, prompt: string, options?: ProviderCallOptions): Promise<string>;
+
+  /**
+   * Reads the plate text from the image, or from the plate at `position`. Returns the raw model output.
+   */
+  readPlateText(imageBase64: string, options?: PlateQueryOptions): Promise<string>;
+}
+
+/** A detected vehicle before the pipeline assigns it an id. */
+export type VehicleDetection = Omit<DetectedVehicle, 'id'>;
+
+/** What one model request consumed, as reported by the backend. */
+export interface ModelUsage {
+  model: string;
+  /** Null when the backend does not report token counts. */
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface ProviderCallOptions {
+  /** Aborts the in-flight request. Providers reject with an AbortError. */
+  signal?: AbortSignal;
+  /** Called once a request completes, with the model used and its token counts. */
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface PlateQueryOptions extends ProviderCallOptions {
+  /** Restricts the question to the front or rear plate. */
+  position?: PlatePosition;
+}
+
+export type ImageProviderName = 'proxy' | 'gemini' | 'mock';
@@ -0,0 +1,241 @@
+import { getImageProvider, ImageModelProvider } from './providers';
+import { boxBlur } from './compositeService';
+import { abortableDelay, isAbortError, throwIfAborted } from './abort';
+import { backoffDelay, classifyError, isTransientError, PlateMorphError, RateLimitError, UnsupportedInputError } from './errors';
+import { padBox } from './geometry';
+import { createEditCrop, quadToBox, stitchCrop } from './stitchService';
+import { BoundingBox, GenerationResult, PlateQuad, RedactionMethod } from '../types';
+
+// Detected plate boxes are tight; a margin makes sure the plate's edges are covered too.
+const REDACT_PADDING = 0.15;
+// Blur radius and pixel block size relative to the plate height. A third of
+// the height is about half a character, which leaves nothing legible.
+const BLUR_FRACTION = 1 / 3;
+const BLUR_PASSES = 3;
+const BLOCK_FRACTION = 1 / 3;
+const MIN_BLOCK_SIZE = 4;
+
+const MAX_RETRIES = 4;
+
+export interface RedactOptions {
+  /** User-marked plate area, redacted together with any detected plates. */
+  region?: PlateQuad | null;
+  signal?: AbortSignal;
+  /** Provider to call instead of the configured one, e.g. a metered wrapper. */
+  provider?: ImageModelProvider;
+}
+
+const toPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for redaction."));
+    img.src = src;
+  });
+};
+
+/** True when two boxes cover mostly the same area, e.g. a marked region and the detected plate under it. */
+const overlapsMostly = (a: BoundingBox, b: BoundingBox) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return false;
+  return width * height >= 0.5 * Math.min(a.width * a.height, b.width * b.height);
+};
+
+/**
+ * Collects every plate in the image: each detected vehicle's plate plus the
+ * marked region. If detection fails and a region was marked, the region alone is used.
+ */
+const findPlates = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  region: PlateQuad | null,
+  signal?: AbortSignal
+): Promise<BoundingBox[]> => {
+  const plates: BoundingBox[] = [];
+  try {
+    const vehicles = await provider.detectVehicles(imageBase64, { signal });
+    for (const vehicle of vehicles) {
+      if (vehicle.plate) plates.push(vehicle.plate);
+    }
+  } catch (e) {
+    if (isAbortError(e) || !region) throw classifyError(e);
+    console.warn("Plate detection failed, redacting the marked area only:", e);
+  }
+  throwIfAborted(signal);
+
+  if (region) {
+    const marked = quadToBox(region);
+    if (!plates.some(plate => overlapsMostly(plate, marked))) plates.push(marked);
+  }
+  return plates.sort((a, b) => a.x - b.x);
+};
+
+/**
+ * Blurs or pixelates every plate box on a canvas. Nothing is sent to the model.
+ */
+const redactLocally = async (imageBase64: string, plates: BoundingBox[], method: 'blur' | 'pixelate'): Promise<string> => {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    throw new Error("Local redaction requires a browser canvas.");
+  }
+
+  const img = await loadImage(imageBase64);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available.");
+  }
+  ctx.drawImage(img, 0, 0);
+
+  for (const plate of plates) {
+    const box = padBox(plate, REDACT_PADDING);
+    const left = Math.max(0, Math.floor(box.x * canvas.width));
+    const top = Math.max(0, Math.floor(box.y * canvas.height));
+    const width = Math.min(canvas.width, Math.ceil((box.x + box.width) * canvas.width)) - left;
+    const height = Math.min(canvas.height, Math.ceil((box.y + box.height) * canvas.height)) - top;
+    if (width < 1 || height < 1) continue;
+
+    const plateHeight = plate.height * canvas.height;
+    const pixels = ctx.getImageData(left, top, width, height);
+    const { data } = pixels;
+
+    if (method === 'blur') {
+      const radius = Math.max(2, plateHeight * BLUR_FRACTION);
+      for (let pass = 0; pass < BLUR_PASSES; pass++) {
+        boxBlur(data, width, height, radius);
+      }
+    } else {
+      const block = Math.max(MIN_BLOCK_SIZE, Math.round(plateHeight * BLOCK_FRACTION));
+      for (let by = 0; by < height; by += block) {
+        for (let bx = 0; bx < width; bx += block) {
+          const bw = Math.min(block, width - bx);
+          const bh = Math.min(block, height - by);
+          const sum = [0, 0, 0, 0];
+          for (let y = by; y < by + bh; y++) {
+            for (let x = bx; x < bx + bw; x++) {
+              for (let c = 0; c < 4; c++) sum[c] += data[(y * width + x) * 4 + c];
+            }
+          }
+          const count = bw * bh;
+          for (let y = by; y < by + bh; y++) {
+            for (let x = bx; x < bx + bw; x++) {
+              for (let c = 0; c < 4; c++) data[(y * width + x) * 4 + c] = sum[c] / count;
+            }
+          }
+        }
+      }
+    }
+    ctx.putImageData(pixels, left, top);
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Has the model erase one plate and paint in the bumper behind it. Only a crop
+ * around the plate is sent when a canvas is available. An attempt passes once
+ * plate detection no longer finds a plate in the edited area.
+ */
+const removePlate = async (
+  provider: ImageModelProvider,
+  imageBase64: string,
+  plate: BoundingBox,
+  prefix: string,
+  onProgress?: (status: string) => void,
+  signal?: AbortSignal
+): Promise<{ image: string; removed: boolean; attempts: number }> => {
+  const crop = await createEditCrop(imageBase64, plate, signal);
+  const location = crop
+    ? "This is a close-up crop of a larger photo. Keep the framing exactly as it is: do not zoom, pan, rotate or resize anything."
+    : `The plate's bounding box spans from (${toPercent(plate.x)}, ${toPercent(plate.y)}) to (${toPercent(plate.x + plate.width)}, ${toPercent(plate.y + plate.height)}), given as (x, y) percentages of the image width and height measured from the top-left. Leave every other plate and vehicle exactly as it is.`;
+  const prompt = `Edit this image. Remove the license plate from the car completely, including its frame and mounting screws. Fill the area with the bumper surface that would be behind it, continuing the paint colour, panel lines, grille and reflections naturally so that no plate, text or blank rectangle remains. ${location}
+      Maintain the exact perspective, lighting and shadows of the original car.
+      Do not modify any other part of the car or the background. High quality, photorealistic.`;
+
+  let best: string | null = null;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    throwIfAborted(signal);
+    try {
+      if (onProgress) onProgress(prefix + (attempt > 1 ? `Removing plate (Attempt ${attempt}/${MAX_RETRIES})...` : 'Removing plate...'));
+      const edited = await provider.editImage(crop ? crop.image : imageBase64, prompt, { signal });
+
+      if (onProgress) onProgress(prefix + 'Checking the plate is gone...');
+      const image = crop ? await stitchCrop(imageBase64, edited, crop, signal) : edited;
+      best = image;
+      let plateFound = true;
+      try {
+        plateFound = await provider.detectPlate(edited, { signal });
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn("Could not check whether the plate was removed:", e);
+      }
+      throwIfAborted(signal);
+      if (!plateFound) {
+        return { image, removed: true, attempts: attempt };
+      }
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error(`Removal attempt ${attempt} error:`, error);
+      lastError = classifyError(error);
+      if (lastError instanceof PlateMorphError && !lastError.retryable) throw lastError;
+
+      if (attempt < MAX_RETRIES && isTransientError(lastError)) {
+        const retryAfterMs = lastError instanceof RateLimitError ? lastError.retryAfterMs : null;
+        const delay = backoffDelay(attempt, retryAfterMs);
+        if (onProgress) onProgress(`Model busy, retrying in ${Math.ceil(delay / 1000)}s...`);
+        await abortableDelay(delay, signal);
+      }
+    }
+  }
+
+  if (best) return { image: best, removed: false, attempts: MAX_RETRIES };
+  if (lastError instanceof PlateMorphError) throw lastError;
+  throw new Error(lastError?.message || "Failed to remove the plate after multiple attempts");
+};
+
+/**
+ * Finds every plate in the image and hides it. 'blur' and 'pixelate' run
+ * locally inside the plate boxes; 'remove' has the model erase each plate in turn.
+ * The result is verified when every plate was handled; for 'remove' that means
+ * detection no longer sees a plate where it was.
+ */
+export const redactPlates = async (
+  imageBase64: string,
+  method: RedactionMethod,
+  onProgress?: (status: string) => void,
+  options: RedactOptions = {}
+): Promise<GenerationResult> => {
+  const { region = null, signal, provider = getImageProvider() } = options;
+  throwIfAborted(signal);
+
+  if (onProgress) onProgress('Finding license plates...');
+  const plates = await findPlates(provider, imageBase64, region, signal);
+  if (plates.length === 0) {
+    throw new UnsupportedInputError("No license plates were found. Use 'Mark Plate Area' to redact a plate by hand.");
+  }
+
+  if (method !== 'remove') {
+    if (onProgress) onProgress(`${method === 'blur' ? 'Blurring' : 'Pixelating'} ${plates.length} plate${plates.length === 1 ? '' : 's'}...`);
+    const image = await redactLocally(imageBase64, plates, method);
+    throwIfAborted(signal);
+    return { image, verified: true, attempts: 0, verification: null, attemptReports: [], source: 'composite', redactedAreas: plates };
+  }
+
+  let image = imageBase64;
+  let verified = true;
+  let attempts = 0;
+  for (const [index, plate] of plates.entries()) {
+    const prefix = plates.length > 1 ? `Plate ${index + 1}/${plates.length}: ` : '';
+    const outcome = await removePlate(provider, image, plate, prefix, onProgress, signal);
+    image = outcome.image;
+    verified = verified && outcome.removed;
+    attempts += outcome.attempts;
+  }
+  return { image, verified, attempts, verification: null, attemptReports: [], source: 'model', redactedAreas: plates };
+};
@@ -0,0 +1,221 @@
+/**
+ * Content-addressed cache for model answers that do not change for the same
+ * input: plate and vehicle detections, and verified generations. Kept in its
+ * own IndexedDB database so it can be cleared without touching the history.
+ */
+
+export type CacheKind = 'plate-detection' | 'vehicle-detection' | 'generation';
+
+export interface CacheSettings {
+  /** Read and write the cache. Turning it off keeps what is stored. */
+  enabled: boolean;
+  /** Least recently used entries are evicted above this size. */
+  maxSizeMb: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  byKind: Record<CacheKind, number>;
+}
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  /** Approximate size of the stored value in bytes. */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CacheValue {
+  key: string;
+  value: unknown;
+}
+
+const DB_NAME = 'platemorph-cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const VALUE_STORE = 'values';
+const SETTINGS_STORAGE_KEY = 'platemorph-cache-settings';
+
+export const CACHE_SIZE_OPTIONS_MB = [50, 100, 200, 500];
+
+const DEFAULT_SETTINGS: CacheSettings = { enabled: true, maxSizeMb: 200 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let settings: CacheSettings | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this environment."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(VALUE_STORE)) {
+          db.createObjectStore(VALUE_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const isAvailable = () => typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+
+/** Reads the settings saved in this browser. */
+export const getCacheSettings = (): CacheSettings => {
+  if (settings) return settings;
+  settings = DEFAULT_SETTINGS;
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    if (saved) settings = { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("Could not read the saved cache settings:", e);
+  }
+  return settings!;
+};
+
+export const setCacheSettings = async (next: CacheSettings): Promise<void> => {
+  settings = next;
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn("Could not save the cache settings:", e);
+  }
+  if (isAvailable()) await evict(0);
+};
+
+/**
+ * SHA-256 of the kind, the image and the parameters that change the answer.
+ * Parameters are serialized as given, so callers pass them in a fixed shape.
+ * Returns null, without hashing, when the cache is off or unavailable, e.g. on
+ * plain http pages where crypto.subtle does not exist.
+ */
+export const cacheKey = async (kind: CacheKind, image: string, params: unknown): Promise<string | null> => {
+  if (!isAvailable() || !getCacheSettings().enabled) return null;
+  const bytes = new TextEncoder().encode(`${kind}\n${image}\n${JSON.stringify(params)}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const listEntries = async (): Promise<CacheEntry[]> => {
+  const db = await openDatabase();
+  return promisify<CacheEntry[]>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll());
+};
+
+/** Deletes least recently used entries until `incomingSize` more bytes fit under the size limit. */
+const evict = async (incomingSize: number) => {
+  const limit = getCacheSettings().maxSizeMb * 1024 * 1024;
+  const entries = (await listEntries()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const stale = [];
+  for (const entry of entries) {
+    if (total + incomingSize <= limit) break;
+    stale.push(entry.key);
+    total -= entry.size;
+  }
+  if (stale.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, VALUE_STORE], 'readwrite');
+  stale.forEach(key => {
+    tx.objectStore(ENTRY_STORE).delete(key);
+    tx.objectStore(VALUE_STORE).delete(key);
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Returns the stored value, or null on a miss, when the cache is off or when
+ * it cannot be read. A hit marks the entry as recently used.
+ */
+export const readCache = async <T>(key: string | null): Promise<T | null> => {
+  if (!key || !isAvailable() || !getCacheSettings().enabled) return null;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, VALUE_STORE]);
+    const [entry, stored] = await Promise.all([
+      promisify<CacheEntry | undefined>(tx.objectStore(ENTRY_STORE).get(key)),
+      promisify<CacheValue | undefined>(tx.objectStore(VALUE_STORE).get(key)),
+    ]);
+    if (!entry || !stored) return null;
+
+    const touch = db.transaction(ENTRY_STORE, 'readwrite');
+    touch.objectStore(ENTRY_STORE).put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(touch);
+    return stored.value as T;
+  } catch (e) {
+    console.warn("Could not read from the result cache:", e);
+    return null;
+  }
+};
+
+/**
+ * Stores a value, evicting older entries to make room. Values larger than the
+ * whole cache are skipped. Failures are logged, never thrown: the cache is an
+ * optimisation and must not fail a run.
+ */
+export const writeCache = async (kind: CacheKind, key: string | null, value: unknown): Promise<void> => {
+  if (!key || !isAvailable() || !getCacheSettings().enabled) return;
+  const size = JSON.stringify(value).length;
+  if (size > getCacheSettings().maxSizeMb * 1024 * 1024) return;
+  try {
+    await evict(size);
+    const db = await openDatabase();
+    const tx = db.transaction([ENTRY_STORE, VALUE_STORE], 'readwrite');
+    const now = Date.now();
+    tx.objectStore(ENTRY_STORE).put({ key, kind, size, createdAt: now, lastUsedAt: now } as CacheEntry);
+    tx.objectStore(VALUE_STORE).put({ key, value } as CacheValue);
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn("Could not write to the result cache:", e);
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const stats: CacheStats = { entries: 0, bytes: 0, byKind: { 'plate-detection': 0, 'vehicle-detection': 0, generation: 0 } };
+  if (!isAvailable()) return stats;
+  for (const entry of await listEntries()) {
+    stats.entries++;
+    stats.bytes += entry.size;
+    stats.byKind[entry.kind]++;
+  }
+  return stats;
+};
+
+export const clearCache = async (): Promise<void> => {
+  if (!isAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, VALUE_STORE], 'readwrite');
+  tx.objectStore(ENTRY_STORE).clear();
+  tx.objectStore(VALUE_STORE).clear();
+  await transactionDone(tx);
+};
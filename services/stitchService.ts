@@ -0,0 +1,180 @@
+import { BoundingBox, PlateQuad } from '../types';
+import { createAbortError } from './abort';
+
+/** Fraction of the area's longer side added as context on every side of the crop. */
+const CROP_PADDING = 0.5;
+/** Smallest crop edge in pixels, so the model sees enough of the bumper to match lighting. */
+const MIN_CROP_SIZE = 512;
+/** Width of the blended seam, as a fraction of the crop's shorter side. */
+const FEATHER_FRACTION = 0.08;
+const MIN_FEATHER = 6;
+
+/** Integer pixel rectangle inside an image. */
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** A crop cut from a full image, ready to be edited and stitched back. */
+export interface EditCrop {
+  image: string;
+  rect: PixelRect;
+  /** Size of the image the crop was cut from. */
+  imageWidth: number;
+  imageHeight: number;
+}
+
+const hasCanvas = () => typeof window !== 'undefined' && typeof document !== 'undefined';
+
+/** Crops can only be cut and stitched where there is a canvas, i.e. not in Node. */
+export const canCropAndStitch = hasCanvas;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for cropping."));
+    img.src = src;
+  });
+};
+
+const drawRect = (img: HTMLImageElement, rect: PixelRect): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  canvas.getContext('2d')?.drawImage(img, rect.left, rect.top, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvas;
+};
+
+/**
+ * Grows the area by CROP_PADDING and to at least MIN_CROP_SIZE, keeping it
+ * centred where possible and shifting it to stay inside the image.
+ */
+export const planCrop = (area: BoundingBox, imageWidth: number, imageHeight: number): PixelRect => {
+  const areaWidth = area.width * imageWidth;
+  const areaHeight = area.height * imageHeight;
+  const padding = Math.max(areaWidth, areaHeight) * CROP_PADDING;
+  const width = Math.min(imageWidth, Math.max(MIN_CROP_SIZE, Math.ceil(areaWidth + padding * 2)));
+  const height = Math.min(imageHeight, Math.max(MIN_CROP_SIZE, Math.ceil(areaHeight + padding * 2)));
+  const centerX = (area.x + area.width / 2) * imageWidth;
+  const centerY = (area.y + area.height / 2) * imageHeight;
+  const left = Math.round(Math.min(imageWidth - width, Math.max(0, centerX - width / 2)));
+  const top = Math.round(Math.min(imageHeight - height, Math.max(0, centerY - height / 2)));
+  return { left, top, width, height };
+};
+
+/** Normalized bounds of a quad. */
+export const quadToBox = (quad: PlateQuad): BoundingBox => {
+  const xs = quad.map(p => p.x);
+  const ys = quad.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/** Re-expresses a quad normalized to the full image in the crop's normalized space. */
+export const quadToCrop = (quad: PlateQuad, crop: EditCrop): PlateQuad =>
+  quad.map(p => ({
+    x: (p.x * crop.imageWidth - crop.rect.left) / crop.rect.width,
+    y: (p.y * crop.imageHeight - crop.rect.top) / crop.rect.height,
+  })) as PlateQuad;
+
+/**
+ * Cuts a padded crop around `area` out of the image.
+ * Returns null outside a browser, where the caller should edit the full image.
+ */
+export const createEditCrop = async (imageBase64: string, area: BoundingBox, signal?: AbortSignal): Promise<EditCrop | null> => {
+  if (signal?.aborted) throw createAbortError();
+  if (!hasCanvas()) return null;
+
+  const img = await loadImage(imageBase64);
+  if (signal?.aborted) throw createAbortError();
+  const imageWidth = img.naturalWidth;
+  const imageHeight = img.naturalHeight;
+  const rect = planCrop(area, imageWidth, imageHeight);
+  // Lossless, so the crop does not pick up a second round of JPEG artefacts.
+  const image = drawRect(img, rect).toDataURL('image/png');
+  return { image, rect, imageWidth, imageHeight };
+};
+
+/**
+ * Crops a normalized box out of the image, e.g. so OCR only sees one vehicle.
+ * Falls back to the full image outside a browser or if the image cannot be drawn.
+ */
+export const cropImage = async (imageBase64: string, box: BoundingBox, signal?: AbortSignal): Promise<string> => {
+  if (signal?.aborted) throw createAbortError();
+  if (!hasCanvas()) return imageBase64;
+
+  try {
+    const img = await loadImage(imageBase64);
+    const rect = {
+      left: Math.floor(box.x * img.naturalWidth),
+      top: Math.floor(box.y * img.naturalHeight),
+      width: Math.max(1, Math.ceil(box.width * img.naturalWidth)),
+      height: Math.max(1, Math.ceil(box.height * img.naturalHeight)),
+    };
+    return drawRect(img, rect).toDataURL('image/png');
+  } catch {
+    return imageBase64;
+  }
+};
+
+/**
+ * Blends the edited crop back into the full image. Weight ramps from 0 at the
+ * crop border to 1 over the feather width; borders that touch the image edge
+ * are not feathered. Pixels outside the crop are copied from `baseImage` as is.
+ */
+export const stitchCrop = async (baseImage: string, editedCrop: string, crop: EditCrop, signal?: AbortSignal): Promise<string> => {
+  if (signal?.aborted) throw createAbortError();
+  if (!hasCanvas()) return editedCrop;
+
+  const [base, edited] = await Promise.all([loadImage(baseImage), loadImage(editedCrop)]);
+  if (signal?.aborted) throw createAbortError();
+
+  const { rect } = crop;
+  const canvas = document.createElement('canvas');
+  canvas.width = base.naturalWidth;
+  canvas.height = base.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas is not available for stitching.");
+  }
+  ctx.drawImage(base, 0, 0);
+
+  // The model may return the crop at a different size; scale it onto the rect.
+  const scaled = document.createElement('canvas');
+  scaled.width = rect.width;
+  scaled.height = rect.height;
+  const scaledCtx = scaled.getContext('2d');
+  if (!scaledCtx) {
+    throw new Error("Canvas is not available for stitching.");
+  }
+  scaledCtx.imageSmoothingQuality = 'high';
+  scaledCtx.drawImage(edited, 0, 0, rect.width, rect.height);
+
+  const target = ctx.getImageData(rect.left, rect.top, rect.width, rect.height);
+  const source = scaledCtx.getImageData(0, 0, rect.width, rect.height).data;
+  const data = target.data;
+  const feather = Math.max(MIN_FEATHER, Math.round(Math.min(rect.width, rect.height) * FEATHER_FRACTION));
+  const featherLeft = rect.left > 0;
+  const featherTop = rect.top > 0;
+  const featherRight = rect.left + rect.width < canvas.width;
+  const featherBottom = rect.top + rect.height < canvas.height;
+
+  for (let y = 0; y < rect.height; y++) {
+    const dy = Math.min(featherTop ? y + 0.5 : Infinity, featherBottom ? rect.height - y - 0.5 : Infinity);
+    for (let x = 0; x < rect.width; x++) {
+      const dx = Math.min(featherLeft ? x + 0.5 : Infinity, featherRight ? rect.width - x - 0.5 : Infinity);
+      const weight = Math.min(1, Math.min(dx, dy) / feather);
+      const i = (y * rect.width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.round(data[i + c] * (1 - weight) + source[i + c] * weight);
+      }
+    }
+  }
+
+  ctx.putImageData(target, rect.left, rect.top);
+  return canvas.toDataURL('image/png');
+};
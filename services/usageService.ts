@@ -0,0 +1,222 @@
+import { isAbortError } from './abort';
+import { classifyError, getErrorKind } from './errors';
+import { ImageModelProvider, ModelUsage, ProviderCallOptions } from './providers';
+import { ModelCallKind, ModelCallRecord, UsageSummary } from '../types';
+
+/** USD per million tokens. */
+interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** Published list prices. Image output is billed as output tokens. */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/**
+ * Cost of a typical call, used when the backend reports no token counts and
+ * to estimate a run before it starts. An edit returns about 1300 image tokens.
+ */
+export const TYPICAL_CALL_USD: Record<ModelCallKind, number> = {
+  'detect-plate': 0.0004,
+  'detect-vehicles': 0.001,
+  edit: 0.04,
+  ocr: 0.0004,
+};
+
+const priceCall = (kind: ModelCallKind, usage: ModelUsage | null): { costUsd: number; costEstimated: boolean } => {
+  const pricing = usage ? MODEL_PRICING[usage.model] : undefined;
+  if (pricing && pricing.inputPerMillion === 0 && pricing.outputPerMillion === 0) {
+    return { costUsd: 0, costEstimated: false };
+  }
+  if (pricing && usage!.inputTokens !== null && usage!.outputTokens !== null) {
+    const costUsd = (usage!.inputTokens * pricing.inputPerMillion + usage!.outputTokens * pricing.outputPerMillion) / 1_000_000;
+    return { costUsd, costEstimated: false };
+  }
+  return { costUsd: TYPICAL_CALL_USD[kind], costEstimated: true };
+};
+
+export const summarizeCalls = (calls: ModelCallRecord[]): UsageSummary => ({
+  calls,
+  durationMs: calls.reduce((sum, call) => sum + call.durationMs, 0),
+  inputTokens: calls.reduce((sum, call) => sum + (call.inputTokens ?? 0), 0),
+  outputTokens: calls.reduce((sum, call) => sum + (call.outputTokens ?? 0), 0),
+  costUsd: calls.reduce((sum, call) => sum + call.costUsd, 0),
+  costEstimated: calls.some(call => call.costEstimated),
+});
+
+/**
+ * Records every call made through the providers it wraps. One meter per run,
+ * so concurrent runs (e.g. in a batch) keep separate counts.
+ */
+export const createUsageMeter = () => {
+  const calls: ModelCallRecord[] = [];
+
+  const track = async <O extends ProviderCallOptions, T>(
+    kind: ModelCallKind,
+    provider: ImageModelProvider,
+    options: O | undefined,
+    call: (options: O) => Promise<T>
+  ): Promise<T> => {
+    let usage: ModelUsage | null = null;
+    const startedAt = Date.now();
+    const record = (outcome: ModelCallRecord['outcome'], error?: unknown) => {
+      calls.push({
+        kind,
+        model: usage?.model ?? provider.name,
+        durationMs: Date.now() - startedAt,
+        inputTokens: usage?.inputTokens ?? null,
+        outputTokens: usage?.outputTokens ?? null,
+        outcome,
+        ...(outcome === 'error' ? { errorKind: getErrorKind(classifyError(error)) } : {}),
+        // Failed requests are usually not billed; cancelled ones may have been.
+        ...(outcome === 'error' ? { costUsd: 0, costEstimated: false } : priceCall(kind, usage)),
+      });
+    };
+
+    try {
+      const value = await call({
+        ...options,
+        onUsage: (reported: ModelUsage) => {
+          usage = reported;
+          options?.onUsage?.(reported);
+        },
+      } as O);
+      record('ok');
+      return value;
+    } catch (e) {
+      record(isAbortError(e) ? 'cancelled' : 'error', e);
+      throw e;
+    }
+  };
+
+  return {
+    /**
+     * Wraps the provider returned by `resolve`. It is resolved on first use, so
+     * runs that never call the model do not need one configured.
+     */
+    wrap(resolve: () => ImageModelProvider): ImageModelProvider {
+      return {
+        get name() {
+          return resolve().name;
+        },
+        detectPlate: (image, options) => track('detect-plate', resolve(), options, o => resolve().detectPlate(image, o)),
+        detectVehicles: (image, options) => track('detect-vehicles', resolve(), options, o => resolve().detectVehicles(image, o)),
+        editImage: (image, prompt, options) => track('edit', resolve(), options, o => resolve().editImage(image, prompt, o)),
+        readPlateText: (image, options) => track('ocr', resolve(), options, o => resolve().readPlateText(image, o)),
+      };
+    },
+
+    summary(): UsageSummary {
+      return summarizeCalls([...calls]);
+    },
+  };
+};
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+export interface SessionUsage {
+  /** Runs recorded since the session started or was reset. */
+  runs: number;
+  calls: number;
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  costEstimated: boolean;
+}
+
+export interface UsageBudget {
+  /** Session spend limit in USD. Null means no limit. */
+  limitUsd: number | null;
+  /** 'warn' lets the run start anyway; 'block' refuses it. */
+  action: 'warn' | 'block';
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'warn' | 'block';
+  message: string | null;
+}
+
+const EMPTY_SESSION: SessionUsage = { runs: 0, calls: 0, durationMs: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, costEstimated: false };
+const DEFAULT_BUDGET: UsageBudget = { limitUsd: null, action: 'warn' };
+const BUDGET_STORAGE_KEY = 'platemorph-usage-budget';
+
+let session: SessionUsage = EMPTY_SESSION;
+let budget: UsageBudget | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const formatUsd = (value: number) => `$${value > 0 && value < 0.01 ? value.toFixed(4) : value.toFixed(2)}`;
+
+export const getSessionUsage = (): SessionUsage => session;
+
+/** Adds a run's usage to the session total. */
+export const recordSessionUsage = (usage: UsageSummary) => {
+  if (usage.calls.length === 0) return;
+  session = {
+    runs: session.runs + 1,
+    calls: session.calls + usage.calls.length,
+    durationMs: session.durationMs + usage.durationMs,
+    inputTokens: session.inputTokens + usage.inputTokens,
+    outputTokens: session.outputTokens + usage.outputTokens,
+    costUsd: session.costUsd + usage.costUsd,
+    costEstimated: session.costEstimated || usage.costEstimated,
+  };
+  notify();
+};
+
+export const resetSessionUsage = () => {
+  session = EMPTY_SESSION;
+  notify();
+};
+
+/** Reads the budget saved in this browser. Outside a browser there is no limit. */
+export const getUsageBudget = (): UsageBudget => {
+  if (budget) return budget;
+  budget = DEFAULT_BUDGET;
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(BUDGET_STORAGE_KEY) : null;
+    if (saved) budget = { ...DEFAULT_BUDGET, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("Could not read the saved usage budget:", e);
+  }
+  return budget!;
+};
+
+export const setUsageBudget = (next: UsageBudget) => {
+  budget = next;
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn("Could not save the usage budget:", e);
+  }
+  notify();
+};
+
+/** Calls the listener whenever the session total or the budget changes. Returns an unsubscribe function. */
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Checks whether a run costing up to `estimateUsd` would take the session past the budget.
+ */
+export const checkBudget = (estimateUsd: number): BudgetCheck => {
+  const { limitUsd, action } = getUsageBudget();
+  const projected = session.costUsd + estimateUsd;
+  if (limitUsd === null || estimateUsd === 0 || projected <= limitUsd) {
+    return { status: 'ok', message: null };
+  }
+  return {
+    status: action,
+    message: `This run could cost up to ${formatUsd(estimateUsd)}, taking the session to ${formatUsd(projected)} of its ${formatUsd(limitUsd)} budget.`,
+  };
+};
@@ -0,0 +1,91 @@
+import { CharacterMismatch } from '../types';
+
+/**
+ * Uppercases and strips everything except letters and digits (any script),
+ * so separators, seals and spacing never count against a result.
+ */
+export const normalizePlateText = (text: string) => text.replace(/[^\p{L}\p{N}]/gu, '').toUpperCase();
+
+/** Characters that dirt, dents and fading make hard to tell apart. */
+const LOOKALIKE_GROUPS = ['0ODQ', '1IL', '2Z', '5S', '6G', '8B'];
+
+const LOOKALIKES = new Map<string, string>(
+  LOOKALIKE_GROUPS.flatMap(group => Array.from(group).map(char => [char, group] as [string, string]))
+);
+
+const isLookalike = (a: string, b: string) => LOOKALIKES.get(a) !== undefined && LOOKALIKES.get(a) === LOOKALIKES.get(b);
+
+export interface AlignOptions {
+  /** Count lookalike characters, such as O and 0, as matches. Used for worn plates. */
+  lookalikes?: boolean;
+}
+
+export interface PlateTextAlignment {
+  distance: number;
+  /** 1 - distance / expected length, clamped to 0..1. 0 when nothing was expected. */
+  similarity: number;
+  mismatches: CharacterMismatch[];
+  /** Normalized OCR text the plate was compared with, after skipping whole extra tokens. */
+  matched: string;
+}
+
+/** Levenshtein distance over the whole of both strings, with the edits that produce it. */
+const alignCharacters = (a: string[], b: string[], same: (x: string, y: string) => boolean) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const dp: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = same(a[i - 1], b[j - 1]) ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j - 1] + cost, dp[i - 1][j] + 1, dp[i][j - 1] + 1);
+    }
+  }
+
+  const mismatches: CharacterMismatch[] = [];
+  let i = rows - 1;
+  let j = cols - 1;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + (same(a[i - 1], b[j - 1]) ? 0 : 1)) {
+      if (!same(a[i - 1], b[j - 1])) {
+        mismatches.push({ position: i - 1, expected: a[i - 1], found: b[j - 1] });
+      }
+      i--;
+      j--;
+    } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+      mismatches.push({ position: i - 1, expected: a[i - 1], found: null });
+      i--;
+    } else {
+      mismatches.push({ position: i, expected: null, found: b[j - 1] });
+      j--;
+    }
+  }
+  mismatches.reverse();
+  return { distance: dp[rows - 1][cols - 1], mismatches };
+};
+
+/**
+ * Aligns the expected plate text against the raw OCR output with Levenshtein
+ * distance. Every unmatched character counts as an edit, so "XAB12" does not
+ * pass for "AB12". Only whole tokens, separated by spaces or punctuation in
+ * the raw output, may be skipped before and after the plate, so an EU band
+ * code or a state name on its own is not penalized.
+ */
+export const alignPlateText = (expected: string, found: string, options: AlignOptions = {}): PlateTextAlignment => {
+  const a = Array.from(normalizePlateText(expected));
+  const same = (x: string, y: string) => x === y || (!!options.lookalikes && isLookalike(x, y));
+  const tokens = found.split(/[^\p{L}\p{N}]+/u).map(normalizePlateText).filter(Boolean);
+
+  // Every contiguous run of tokens is a candidate; the empty run covers an empty read.
+  let best = { ...alignCharacters(a, [], same), matched: '' };
+  for (let start = 0; start < tokens.length; start++) {
+    for (let end = start + 1; end <= tokens.length; end++) {
+      const matched = tokens.slice(start, end).join('');
+      const alignment = alignCharacters(a, Array.from(matched), same);
+      if (alignment.distance < best.distance) best = { ...alignment, matched };
+    }
+  }
+
+  const similarity = a.length === 0 ? 0 : Math.max(0, 1 - best.distance / a.length);
+  return { ...best, similarity };
+};
@@ -1,14 +1,345 @@
+/** A point in normalized image coordinates (0..1 on both axes). */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Plate corners in the order top-left, top-right, bottom-right, bottom-left. */
+export type PlateQuad = [Point, Point, Point, Point];
+
+/** Axis-aligned box, normalized to 0..1 of the image width and height. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedVehicle {
+  id: string;
+  /** Short description from the detector, e.g. "red hatchback". */
+  label: string;
+  box: BoundingBox;
+  /** Visible plate on this vehicle, if any. */
+  plate: BoundingBox | null;
+}
+
+/** The text and style of one plate. */
+export interface PlateSpec {
+  plateNumber: string;
+  plateCountry: string;
+}
+
+/** A vehicle selected for editing and the plate it should receive. */
+export interface VehicleTarget extends PlateSpec {
+  vehicle: DetectedVehicle;
+}
+
+export type PlatePosition = 'front' | 'rear';
+
+/** Which plates to produce. 'auto' lets the model pick the visible bumper. */
+export type PlatePlacement = 'auto' | PlatePosition | 'both';
+
+/** Outcome for one plate when a generation produced several. */
+export interface PlateResult extends PlateSpec {
+  vehicleId?: string;
+  position?: PlatePosition;
+  verified: boolean;
+  verification: VerificationReport | null;
+  source: 'model' | 'composite';
+}
+
+export type PlateMode = 'add' | 'replace' | 'composite' | 'redact';
+
+/** How 'redact' mode hides a plate: locally on canvas, or by having the model remove it. */
+export type RedactionMethod = 'blur' | 'pixelate' | 'remove';
+
+/** What kind of plate the model draws. */
+export type PlateKind = 'standard' | 'vanity' | 'temporary' | 'motorcycle';
+
+export type PlateCondition = 'new' | 'weathered' | 'dirty' | 'dented';
+
+export type PlateFrame = 'none' | 'plain' | 'dealer';
+
+/** 'standard' uses the country's usual lettering. */
+export type PlateFont = 'standard' | 'embossed' | 'flat';
+
+/** Realism settings for model-generated plates. */
+export interface PlateStyle {
+  kind: PlateKind;
+  condition: PlateCondition;
+  frame: PlateFrame;
+  /** Printed on a 'dealer' frame. Empty lets the model invent one. */
+  dealerName: string;
+  /** Registration or inspection stickers in the plate corners. */
+  stickers: boolean;
+  font: PlateFont;
+}
+
+/** Realism settings for the local composite renderer. */
+export interface CompositeOptions {
+  /** Box blur radius in pixels. */
+  blur: number;
+  /** Maximum per-pixel noise amplitude (0-255). */
+  noise: number;
+  /** Scale the plate brightness to the area it covers. */
+  matchLighting: boolean;
+}
+
+export type PlateErrorKind =
+  | 'missing-key'
+  | 'rate-limited'
+  | 'service-unavailable'
+  | 'safety-blocked'
+  | 'no-image'
+  | 'verification-failed'
+  | 'plate-detected'
+  | 'unsupported-input'
+  | 'budget-exceeded'
+  | 'unknown';
+
+/** A failure as shown to the user: what happened and what to try next. */
+export interface ErrorNotice {
+  kind: PlateErrorKind;
+  message: string;
+  action: string | null;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  /** 0..1, used by JPEG and WebP. */
+  quality: number;
+  /** File name with placeholders: {plate}, {country}, {mode}, {date}, {time}. */
+  fileNamePattern: string;
+  /** Embed a record stating the image is AI-edited, with the plate details. */
+  embedMetadata: boolean;
+}
+
 export interface CarPlateState {
   originalImage: string | null;
   generatedImage: string | null;
+  /** Details of the generation that produced `generatedImage`. */
+  lastResult: GenerationResult | null;
+  /** The only plate, or the front plate when `placement` is 'both'. */
   plateNumber: string;
   plateCountry: string;
-  mode: 'add' | 'replace';
+  placement: PlatePlacement;
+  /** Used only when `placement` is 'both'. */
+  rearPlate: PlateSpec;
+  mode: PlateMode;
+  plateRegion: PlateQuad | null;
+  compositeOptions: CompositeOptions;
+  /** Render the plate locally when AI output never passes verification. */
+  compositeFallback: boolean;
+  /** Send only the plate area to the model and blend it back into the original. */
+  cropAndStitch: boolean;
+  /** Applied to every plate in 'add' and 'replace' mode. */
+  plateStyle: PlateStyle;
+  /** Edits sent to the model at the same time. Above 1, every candidate is kept for review. */
+  variants: number;
+  /** Skip cached detections and results on the next run. */
+  forceFresh: boolean;
+  /** The first result and every follow-up edit of it. `generatedImage` shows `versions[versionIndex]`. */
+  versions: ResultVersion[];
+  versionIndex: number;
+  /** Vehicles found by detection; null until detection has run on this image. */
+  vehicles: DetectedVehicle[] | null;
+  /** Vehicles selected for editing. Empty means the model picks the car. */
+  vehicleTargets: VehicleTarget[];
+  /** Treatment applied to every plate in 'redact' mode. */
+  redaction: RedactionMethod;
   isGenerating: boolean;
-  error: string | null;
+  error: ErrorNotice | null;
   statusMessage?: string;
 }
 
+/** One character-level difference between the expected and the read plate text. */
+export interface CharacterMismatch {
+  /** Index in the expected text. */
+  position: number;
+  /** Null when the OCR read an extra character. */
+  expected: string | null;
+  /** Null when the character is missing from the OCR output. */
+  found: string | null;
+}
+
+/** How much of the image outside the plate area the edit changed. */
+export interface ChangeReport {
+  /** Fraction (0..1) of the compared pixels that changed noticeably. */
+  score: number;
+  /** Highest score an attempt may have and still pass. */
+  threshold: number;
+  passed: boolean;
+  /** Plate areas left out of the comparison, normalized, before the safety margin is added. */
+  excluded: BoundingBox[];
+}
+
+export interface VerificationReport {
+  attempt: number;
+  /** Normalized OCR output that was compared, without whole extra tokens such as a band code. */
+  ocrText: string;
+  /** Normalized expected plate text. */
+  expected: string;
+  distance: number;
+  /** 0..1, where 1 means the plate text was read exactly. */
+  similarity: number;
+  mismatches: CharacterMismatch[];
+  /** True when the text matched exactly and, if checked, the rest of the image was left alone. */
+  passed: boolean;
+  /** Set when the OCR call itself failed. */
+  error?: string;
+  /** Plate the report is for, when front and rear were checked separately. */
+  position?: PlatePosition;
+  /** Out-of-region change check; absent when it could not run, e.g. outside a browser. */
+  change?: ChangeReport;
+}
+
+export type ModelCallKind = 'detect-plate' | 'detect-vehicles' | 'edit' | 'ocr';
+
+/** One request to the model backend, timed and priced. */
+export interface ModelCallRecord {
+  kind: ModelCallKind;
+  /** Model the backend reported, or the provider name when it reported none. */
+  model: string;
+  durationMs: number;
+  /** Null when the backend did not report token counts. */
+  inputTokens: number | null;
+  outputTokens: number | null;
+  outcome: 'ok' | 'error' | 'cancelled';
+  errorKind?: PlateErrorKind;
+  costUsd: number;
+  /** True when the cost is a typical figure rather than computed from token counts. */
+  costEstimated: boolean;
+}
+
+/** Model calls made by one generation, with their totals. */
+export interface UsageSummary {
+  calls: ModelCallRecord[];
+  /** Sum of call durations. Parallel calls overlap, so this can exceed the wall time. */
+  durationMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** True when any call's cost was estimated. */
+  costEstimated: boolean;
+}
+
+/** One model output from a run that generated several variants. */
+export interface GenerationCandidate {
+  image: string;
+  verification: VerificationReport;
+  changeHeatmap?: string;
+}
+
+export interface GenerationResult {
+  image: string;
+  verified: boolean;
+  attempts: number;
+  /** Report for the returned image; null when nothing was verified. */
+  verification: VerificationReport | null;
+  /** Reports for every attempt, in order. */
+  attemptReports: VerificationReport[];
+  /** 'composite' when the image was produced locally instead of by the model. */
+  source: 'model' | 'composite';
+  /** Plates that were hidden in 'redact' mode. */
+  redactedAreas?: BoundingBox[];
+  /** Semi-transparent PNG marking where the returned image differs from the original outside the plate. */
+  changeHeatmap?: string;
+  /** Per-plate outcome when several plates were produced (vehicles or front and rear). */
+  plateResults?: PlateResult[];
+  /** Every model output, best first, when variants were generated for a single plate. */
+  candidates?: GenerationCandidate[];
+  /** Model calls the run made. Absent when nothing called the model, e.g. in 'composite' mode. */
+  usage?: UsageSummary;
+  /** Served from the result cache, without calling the model. */
+  fromCache?: boolean;
+}
+
+/** A plate to read back after a follow-up edit. */
+export interface PlateCheck {
+  plateNumber: string;
+  /** Read only this end of the car. */
+  position?: PlatePosition;
+  /** Read only this vehicle's plate when there are several in frame. */
+  vehicle?: DetectedVehicle;
+}
+
+/** One step in the follow-up edit timeline of a result. */
+export interface ResultVersion {
+  id: string;
+  result: GenerationResult;
+  /** Instruction that produced this version; null for the first result. */
+  instruction: string | null;
+  /** Plates every later version is verified against. */
+  plates: PlateCheck[];
+}
+
+/** Searchable metadata for one saved generation. Full images are stored separately. */
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  mode: PlateMode;
+  plateNumber: string;
+  plateCountry: string;
+  plateRegion: PlateQuad | null;
+  originalThumbnail: string;
+  resultThumbnail: string;
+  verified: boolean;
+  /** OCR similarity of the saved result, null when it was not verified by OCR. */
+  similarity: number | null;
+  source: GenerationResult['source'];
+  /** Approximate stored size in bytes, used for eviction. */
+  size: number;
+}
+
+/** Everything a single-image generation ran with, so history can repeat it exactly. */
+export type GenerationSettings = Pick<
+  CarPlateState,
+  | 'plateNumber'
+  | 'plateCountry'
+  | 'placement'
+  | 'rearPlate'
+  | 'mode'
+  | 'plateRegion'
+  | 'compositeOptions'
+  | 'compositeFallback'
+  | 'cropAndStitch'
+  | 'plateStyle'
+  | 'variants'
+  | 'vehicles'
+  | 'vehicleTargets'
+  | 'redaction'
+> & {
+  skipDetection: boolean;
+};
+
+/** Full-size images for a history entry. */
+export interface HistoryPayload {
+  id: string;
+  originalImage: string;
+  result: GenerationResult;
+  /** Absent for entries saved before settings were recorded, and for batch jobs. */
+  settings?: GenerationSettings;
+}
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  image: string;
+  plateNumber: string;
+  plateCountry: string;
+  status: BatchJobStatus;
+  statusMessage: string;
+  /** Mode of the job's last run; null until it has run. */
+  mode: Exclude<PlateMode, 'composite'> | null;
+  result: GenerationResult | null;
+  error: string | null;
+}
+
 export enum GenerationStatus {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line tool as a Node bundle. Unlike the web build there is
+// no `define` block: the API key and provider settings are read from the
+// environment when the CLI runs.
+export default defineConfig({
+  build: {
+    ssr: 'cli/platemorph.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'platemorph.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -2,17 +2,28 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
+    const provider = env.IMAGE_PROVIDER || 'proxy';
+    // Calling Gemini directly puts the API key in the bundle, where anyone can
+    // read it. That is only allowed on the dev server, and only when asked for.
+    if (provider === 'gemini' && command === 'build') {
+      throw new Error("IMAGE_PROVIDER=gemini would ship the API key to the browser. Use the API server (IMAGE_PROVIDER=proxy) for builds.");
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(provider === 'gemini' ? env.GEMINI_API_KEY || '' : ''),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(provider),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL || ''),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the evaluation harness as a Node bundle, like the CLI. Provider
+// settings come from the environment or the command line when it runs.
+export default defineConfig({
+  build: {
+    ssr: 'cli/evaluate.ts',
+    outDir: 'dist-eval',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'evaluate.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the API server as a Node bundle. The API key stays on the server: it
+// is read from the environment at run time and never reaches the web build.
+export default defineConfig({
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'server.js',
+      },
+    },
+  },
+});